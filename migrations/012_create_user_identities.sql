@@ -0,0 +1,19 @@
+CREATE TABLE IF NOT EXISTS user_identities (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id),
+  provider text NOT NULL,
+  provider_user_id text NOT NULL,
+  email text NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  last_login_at timestamptz NULL,
+  UNIQUE (provider, provider_user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_identities_user_id ON user_identities(user_id);
+
+-- users only kept the most recent OAuth login, so that is all we can carry over.
+INSERT INTO user_identities (user_id, provider, provider_user_id, email)
+SELECT id, provider, provider_user_id, email
+FROM users
+WHERE provider IN ('google', 'github') AND provider_user_id IS NOT NULL
+ON CONFLICT (provider, provider_user_id) DO NOTHING;
@@ -0,0 +1,7 @@
+CREATE TABLE IF NOT EXISTS rate_limit_counters (
+  key text PRIMARY KEY,
+  count int NOT NULL,
+  reset_at timestamptz NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_counters_reset_at ON rate_limit_counters(reset_at);
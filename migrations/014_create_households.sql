@@ -0,0 +1,64 @@
+CREATE TABLE IF NOT EXISTS households (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS household_members (
+  household_id uuid NOT NULL REFERENCES households(id),
+  user_id uuid NOT NULL REFERENCES users(id),
+  role text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (household_id, user_id),
+  CHECK (role IN ('owner', 'editor', 'viewer'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_household_members_user_id ON household_members(user_id);
+
+CREATE TABLE IF NOT EXISTS household_invites (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id uuid NOT NULL REFERENCES households(id),
+  email text NOT NULL,
+  role text NOT NULL,
+  code_hash text NOT NULL UNIQUE,
+  invited_by uuid NOT NULL REFERENCES users(id),
+  expires_at timestamptz NOT NULL,
+  accepted_at timestamptz NULL,
+  accepted_by uuid NULL REFERENCES users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (role IN ('owner', 'editor', 'viewer'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_household_invites_household_id ON household_invites(household_id);
+
+ALTER TABLE children
+  ADD COLUMN IF NOT EXISTS household_id uuid REFERENCES households(id);
+
+-- Every existing parent becomes the owner of a household holding their children.
+DO $$
+DECLARE
+  parent record;
+  new_household_id uuid;
+BEGIN
+  FOR parent IN SELECT DISTINCT user_id FROM children WHERE household_id IS NULL LOOP
+    INSERT INTO households (name) VALUES ('Family') RETURNING id INTO new_household_id;
+    INSERT INTO household_members (household_id, user_id, role)
+      VALUES (new_household_id, parent.user_id, 'owner');
+    UPDATE children SET household_id = new_household_id
+      WHERE user_id = parent.user_id AND household_id IS NULL;
+  END LOOP;
+END $$;
+
+ALTER TABLE children
+  ALTER COLUMN household_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_children_household_id ON children(household_id);
+
+ALTER TABLE study_logs
+  ADD COLUMN IF NOT EXISTS recorded_by uuid REFERENCES users(id);
+
+UPDATE study_logs SET recorded_by = user_id WHERE recorded_by IS NULL;
+
+ALTER TABLE study_logs
+  ALTER COLUMN recorded_by SET NOT NULL;
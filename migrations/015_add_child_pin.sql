@@ -0,0 +1,3 @@
+ALTER TABLE children ADD COLUMN IF NOT EXISTS pin_hash text;
+ALTER TABLE children ADD COLUMN IF NOT EXISTS pin_set_by uuid REFERENCES users(id);
+ALTER TABLE children ADD COLUMN IF NOT EXISTS kid_token_version integer NOT NULL DEFAULT 0;
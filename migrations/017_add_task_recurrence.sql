@@ -0,0 +1,12 @@
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS rrule text,
+  ADD COLUMN IF NOT EXISTS rdates text[] NOT NULL DEFAULT '{}';
+
+-- days_mask stays for weekly tasks; rrule/rdates tasks leave it NULL.
+ALTER TABLE tasks ALTER COLUMN days_mask DROP NOT NULL;
+
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_schedule_check;
+ALTER TABLE tasks ADD CONSTRAINT tasks_schedule_check CHECK (
+  (days_mask IS NOT NULL OR rrule IS NOT NULL OR cardinality(rdates) > 0)
+  AND NOT (days_mask IS NOT NULL AND rrule IS NOT NULL)
+);
@@ -0,0 +1,19 @@
+CREATE TABLE IF NOT EXISTS task_exceptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES tasks(id),
+  date date NOT NULL,
+  action text NOT NULL,
+  moved_to date NULL,
+  minutes int NULL,
+  created_by uuid NOT NULL REFERENCES users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (task_id, date),
+  CHECK (action IN ('skip', 'move', 'override')),
+  CHECK ((action = 'move') = (moved_to IS NOT NULL)),
+  CHECK (action <> 'override' OR minutes IS NOT NULL),
+  CHECK (action <> 'skip' OR minutes IS NULL),
+  CHECK (minutes IS NULL OR minutes >= 1)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_exceptions_moved_to ON task_exceptions(task_id, moved_to);
@@ -0,0 +1,17 @@
+-- Vacations and holidays. child_id NULL covers every child in the household;
+-- source names the imported calendar, NULL for periods entered by hand.
+CREATE TABLE IF NOT EXISTS off_periods (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id uuid NOT NULL REFERENCES households(id),
+  child_id uuid NULL REFERENCES children(id),
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  reason text NOT NULL,
+  source text NULL,
+  created_by uuid NOT NULL REFERENCES users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (start_date <= end_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_off_periods_household_dates
+  ON off_periods(household_id, start_date, end_date);
@@ -0,0 +1,65 @@
+CREATE TABLE IF NOT EXISTS subjects (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id uuid NOT NULL REFERENCES households(id),
+  name text NOT NULL,
+  color text NULL,
+  icon text NULL,
+  sort_order int NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (color IS NULL OR color ~ '^#[0-9a-f]{6}$')
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_subjects_household_name
+  ON subjects(household_id, lower(name));
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS subject_id uuid REFERENCES subjects(id);
+
+CREATE INDEX IF NOT EXISTS idx_tasks_subject_id ON tasks(subject_id);
+
+-- Merge the free-text tasks.subject values into one subject per household.
+-- Case and surrounding spaces are ignored, and common Japanese names fold
+-- into their English counterparts; each subject keeps the spelling most of
+-- its tasks used.
+CREATE TEMP TABLE subject_merge AS
+SELECT t.id AS task_id,
+       c.household_id,
+       trim(t.subject) AS spelling,
+       COALESCE(a.merge_key, lower(trim(t.subject))) AS merge_key
+FROM tasks t
+JOIN children c ON c.id = t.child_id
+LEFT JOIN (
+  VALUES ('算数', 'math'), ('さんすう', 'math'), ('数学', 'math'),
+         ('国語', 'japanese'), ('こくご', 'japanese'),
+         ('英語', 'english'), ('えいご', 'english'),
+         ('理科', 'science'), ('りか', 'science'),
+         ('社会', 'social'), ('しゃかい', 'social')
+) AS a(alias, merge_key) ON a.alias = trim(t.subject)
+WHERE t.subject_id IS NULL;
+
+CREATE TEMP TABLE subject_merge_names AS
+SELECT household_id,
+       merge_key,
+       mode() WITHIN GROUP (ORDER BY spelling) AS name,
+       COUNT(*) AS task_count
+FROM subject_merge
+GROUP BY household_id, merge_key;
+
+INSERT INTO subjects (household_id, name, sort_order)
+SELECT household_id,
+       name,
+       ROW_NUMBER() OVER (PARTITION BY household_id ORDER BY task_count DESC, name) - 1
+FROM subject_merge_names
+ON CONFLICT (household_id, lower(name)) DO NOTHING;
+
+UPDATE tasks t
+SET subject_id = s.id, subject = s.name
+FROM subject_merge m
+JOIN subject_merge_names n ON n.household_id = m.household_id AND n.merge_key = m.merge_key
+JOIN subjects s ON s.household_id = n.household_id AND lower(s.name) = lower(n.name)
+WHERE t.id = m.task_id;
+
+DROP TABLE subject_merge;
+DROP TABLE subject_merge_names;
+
+ALTER TABLE tasks ALTER COLUMN subject_id SET NOT NULL;
@@ -0,0 +1,49 @@
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS version int NOT NULL DEFAULT 1;
+
+-- One row per saved definition of a task. Study logs point at the version
+-- that was current when they were recorded, so summaries keep the name and
+-- subject a task had at the time.
+CREATE TABLE IF NOT EXISTS task_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES tasks(id),
+  version int NOT NULL,
+  name text NOT NULL,
+  description text NULL,
+  subject_id uuid NOT NULL REFERENCES subjects(id),
+  subject text NOT NULL,
+  default_minutes int NOT NULL,
+  days_mask int NULL,
+  rrule text NULL,
+  rdates text[] NOT NULL DEFAULT '{}',
+  start_date date NULL,
+  end_date date NULL,
+  is_archived boolean NOT NULL,
+  changed_by uuid NULL REFERENCES users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (task_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_versions_subject_id ON task_versions(subject_id);
+
+-- Existing tasks start their history with their current definition.
+INSERT INTO task_versions (task_id, version, name, description, subject_id, subject,
+                           default_minutes, days_mask, rrule, rdates, start_date, end_date,
+                           is_archived, changed_by, created_at)
+SELECT id, version, name, description, subject_id, subject,
+       default_minutes, days_mask, rrule, rdates, start_date, end_date,
+       is_archived, user_id, updated_at
+FROM tasks
+ON CONFLICT (task_id, version) DO NOTHING;
+
+ALTER TABLE study_logs ADD COLUMN IF NOT EXISTS task_version int;
+
+UPDATE study_logs l
+SET task_version = t.version
+FROM tasks t
+WHERE t.id = l.task_id AND l.task_version IS NULL;
+
+ALTER TABLE study_logs ALTER COLUMN task_version SET NOT NULL;
+
+ALTER TABLE study_logs DROP CONSTRAINT IF EXISTS study_logs_task_version_fkey;
+ALTER TABLE study_logs ADD CONSTRAINT study_logs_task_version_fkey
+  FOREIGN KEY (task_id, task_version) REFERENCES task_versions(task_id, version);
@@ -0,0 +1,31 @@
+CREATE TABLE IF NOT EXISTS task_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id uuid NOT NULL REFERENCES households(id),
+  name text NOT NULL,
+  description text NULL,
+  created_by uuid NULL REFERENCES users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_templates_household_id ON task_templates(household_id);
+
+-- subject is a name rather than a subjects row so the same shape serves the
+-- bundled starter packs; it is resolved against the household on apply.
+CREATE TABLE IF NOT EXISTS task_template_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id uuid NOT NULL REFERENCES task_templates(id),
+  name text NOT NULL,
+  description text NULL,
+  subject text NOT NULL,
+  default_minutes int NOT NULL DEFAULT 15,
+  days_mask int NULL,
+  rrule text NULL,
+  sort_order int NOT NULL DEFAULT 0,
+  CHECK (default_minutes >= 1),
+  CHECK (days_mask IS NULL OR days_mask BETWEEN 1 AND 127),
+  CHECK ((days_mask IS NULL) <> (rrule IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_template_items_template_id
+  ON task_template_items(template_id, sort_order);
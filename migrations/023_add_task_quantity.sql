@@ -0,0 +1,27 @@
+-- Tasks measured in pages, problems, repetitions... declare a unit and a
+-- target; study logs record the achieved quantity next to the minutes.
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS unit text NULL,
+  ADD COLUMN IF NOT EXISTS target_quantity int NULL;
+
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_quantity_check;
+ALTER TABLE tasks ADD CONSTRAINT tasks_quantity_check
+  CHECK ((unit IS NULL) = (target_quantity IS NULL) AND (target_quantity IS NULL OR target_quantity >= 1));
+
+ALTER TABLE task_versions
+  ADD COLUMN IF NOT EXISTS unit text NULL,
+  ADD COLUMN IF NOT EXISTS target_quantity int NULL;
+
+ALTER TABLE task_template_items
+  ADD COLUMN IF NOT EXISTS unit text NULL,
+  ADD COLUMN IF NOT EXISTS target_quantity int NULL;
+
+ALTER TABLE task_template_items DROP CONSTRAINT IF EXISTS task_template_items_quantity_check;
+ALTER TABLE task_template_items ADD CONSTRAINT task_template_items_quantity_check
+  CHECK ((unit IS NULL) = (target_quantity IS NULL) AND (target_quantity IS NULL OR target_quantity >= 1));
+
+ALTER TABLE study_logs ADD COLUMN IF NOT EXISTS quantity int NULL;
+
+ALTER TABLE study_logs DROP CONSTRAINT IF EXISTS study_logs_quantity_check;
+ALTER TABLE study_logs ADD CONSTRAINT study_logs_quantity_check
+  CHECK (quantity IS NULL OR quantity >= 0);
@@ -0,0 +1,23 @@
+-- How a child's streak is counted (see src/achievements.ts) and the badges
+-- the child has earned. A badge is earned once and kept even if the logs
+-- behind it are edited later.
+ALTER TABLE children ADD COLUMN IF NOT EXISTS streak_mode text NOT NULL DEFAULT 'logged';
+
+ALTER TABLE children DROP CONSTRAINT IF EXISTS children_streak_mode_check;
+ALTER TABLE children ADD CONSTRAINT children_streak_mode_check
+  CHECK (streak_mode IN ('logged', 'green'));
+
+CREATE TABLE IF NOT EXISTS child_badges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  child_id uuid NOT NULL REFERENCES children(id),
+  badge text NOT NULL,
+  earned_on date NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (child_id, badge)
+);
+
+-- Longest streak in the child's current streak_mode. Badge checks on writes
+-- only scan recent history, so the best run so far is kept here. NULL until
+-- it has been counted over the whole history (and again after streak_mode
+-- changes).
+ALTER TABLE children ADD COLUMN IF NOT EXISTS longest_streak integer NULL;
@@ -0,0 +1,69 @@
+-- Points for finished tasks, a per-child ledger, rewards set by the parents
+-- and the children's redemption requests.
+
+-- What a logged task is worth: a fixed amount per completed task, or an
+-- amount per minute. A rule on the task wins over one on its subject.
+CREATE TABLE IF NOT EXISTS point_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id uuid NOT NULL REFERENCES households(id),
+  subject_id uuid NULL UNIQUE REFERENCES subjects(id),
+  task_id uuid NULL UNIQUE REFERENCES tasks(id),
+  mode text NOT NULL CHECK (mode IN ('task', 'minute')),
+  points int NOT NULL CHECK (points >= 1),
+  created_by uuid NULL REFERENCES users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK ((subject_id IS NULL) <> (task_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_point_rules_household_id ON point_rules(household_id);
+
+-- Points a log is worth, fixed when it is recorded or changed so a later rule
+-- change doesn't rewrite past days.
+ALTER TABLE study_logs ADD COLUMN IF NOT EXISTS points int NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS rewards (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id uuid NOT NULL REFERENCES households(id),
+  name text NOT NULL,
+  cost int NOT NULL CHECK (cost >= 1),
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid NULL REFERENCES users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rewards_household_id ON rewards(household_id);
+
+CREATE TABLE IF NOT EXISTS reward_redemptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  child_id uuid NOT NULL REFERENCES children(id),
+  reward_id uuid NOT NULL REFERENCES rewards(id),
+  -- The reward's cost when it was requested.
+  cost int NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  requested_by uuid NULL REFERENCES users(id),
+  decided_by uuid NULL REFERENCES users(id),
+  decided_at timestamptz NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reward_redemptions_child_id ON reward_redemptions(child_id);
+
+-- Append-only; the balance is the sum of points. "study" entries for a day and
+-- task add up to what that day's log is worth now: editing the day appends the
+-- difference. Redemptions take their cost when requested and a rejection
+-- gives it back ("refund").
+CREATE TABLE IF NOT EXISTS point_ledger (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  child_id uuid NOT NULL REFERENCES children(id),
+  points int NOT NULL CHECK (points <> 0),
+  reason text NOT NULL CHECK (reason IN ('study', 'redemption', 'refund')),
+  date date NULL,
+  task_id uuid NULL REFERENCES tasks(id),
+  redemption_id uuid NULL REFERENCES reward_redemptions(id),
+  created_by uuid NULL REFERENCES users(id),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_point_ledger_child_id_date ON point_ledger(child_id, date);
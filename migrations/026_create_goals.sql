@@ -0,0 +1,17 @@
+-- Per-child study goals: minutes or completion rate, per week (Monday to
+-- Sunday) or calendar month, over one subject or all of them.
+CREATE TABLE IF NOT EXISTS goals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  child_id uuid NOT NULL REFERENCES children(id),
+  subject_id uuid NULL REFERENCES subjects(id),
+  period text NOT NULL CHECK (period IN ('week', 'month')),
+  metric text NOT NULL CHECK (metric IN ('minutes', 'completion_rate')),
+  target int NOT NULL,
+  created_by uuid NULL REFERENCES users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (target >= 1 AND (metric = 'minutes' OR target <= 100))
+);
+
+CREATE INDEX IF NOT EXISTS idx_goals_child_id ON goals(child_id);
+CREATE INDEX IF NOT EXISTS idx_goals_subject_id ON goals(subject_id);
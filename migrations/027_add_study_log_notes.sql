@@ -0,0 +1,14 @@
+-- Optional details a child or parent can add to a study log entry: a free-text
+-- note, how hard it felt (1 = easy .. 5 = hard) and the child's mood.
+ALTER TABLE study_logs
+  ADD COLUMN IF NOT EXISTS note text NULL,
+  ADD COLUMN IF NOT EXISTS difficulty smallint NULL,
+  ADD COLUMN IF NOT EXISTS mood text NULL;
+
+ALTER TABLE study_logs DROP CONSTRAINT IF EXISTS study_logs_difficulty_check;
+ALTER TABLE study_logs ADD CONSTRAINT study_logs_difficulty_check
+  CHECK (difficulty IS NULL OR difficulty BETWEEN 1 AND 5);
+
+ALTER TABLE study_logs DROP CONSTRAINT IF EXISTS study_logs_mood_check;
+ALTER TABLE study_logs ADD CONSTRAINT study_logs_mood_check
+  CHECK (mood IS NULL OR mood IN ('great', 'good', 'okay', 'tired', 'bad'));
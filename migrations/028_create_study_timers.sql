@@ -0,0 +1,22 @@
+-- Server-side study timers. Stopping a timer adds its time to the study log
+-- of the task on date.
+CREATE TABLE IF NOT EXISTS study_timers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  child_id uuid NOT NULL REFERENCES children(id),
+  task_id uuid NOT NULL REFERENCES tasks(id),
+  date date NOT NULL,
+  status text NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'paused', 'stopped')),
+  -- Seconds counted before the current running stretch.
+  elapsed_seconds int NOT NULL DEFAULT 0,
+  -- Start of the current running stretch; set only while running.
+  running_since timestamptz NULL DEFAULT now(),
+  started_by uuid NULL REFERENCES users(id),
+  started_at timestamptz NOT NULL DEFAULT now(),
+  stopped_at timestamptz NULL,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK ((status = 'running') = (running_since IS NOT NULL))
+);
+
+-- One running or paused timer per child.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_study_timers_active_child
+  ON study_timers(child_id) WHERE status <> 'stopped';
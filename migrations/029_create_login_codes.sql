@@ -0,0 +1,12 @@
+-- One-time codes handed to the frontend after an OAuth login. The frontend
+-- trades one for tokens with POST /auth/oauth/exchange, so no token ever
+-- appears in a redirect URL.
+CREATE TABLE IF NOT EXISTS login_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id),
+  code_hash text NOT NULL UNIQUE,
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_login_codes_user_id ON login_codes(user_id);
@@ -0,0 +1,14 @@
+-- FREQ=WEEKLY rules may no longer carry BYMONTHDAY (RFC 5545 forbids it). It
+-- never had an effect on weekly rules, so dropping it keeps every stored
+-- schedule as it was.
+UPDATE tasks
+SET rrule = regexp_replace(rrule, ';BYMONTHDAY=[^;]*', '')
+WHERE rrule LIKE 'FREQ=WEEKLY;%' AND rrule LIKE '%;BYMONTHDAY=%';
+
+UPDATE task_versions
+SET rrule = regexp_replace(rrule, ';BYMONTHDAY=[^;]*', '')
+WHERE rrule LIKE 'FREQ=WEEKLY;%' AND rrule LIKE '%;BYMONTHDAY=%';
+
+UPDATE task_template_items
+SET rrule = regexp_replace(rrule, ';BYMONTHDAY=[^;]*', '')
+WHERE rrule LIKE 'FREQ=WEEKLY;%' AND rrule LIKE '%;BYMONTHDAY=%';
@@ -0,0 +1,72 @@
+-- The streak running at the end of streak_through (see StreakCheckpoint in
+-- src/achievements.ts). Writes carry it into the recent weeks instead of
+-- reading the history behind it. NULL streak_through means no checkpoint.
+ALTER TABLE children
+  ADD COLUMN IF NOT EXISTS streak_through date NULL,
+  ADD COLUMN IF NOT EXISTS streak_current integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS streak_since date NULL;
+
+-- A new child has no history to count.
+ALTER TABLE children ALTER COLUMN longest_streak SET DEFAULT 0;
+
+-- Counts the existing history here rather than on the first write. Only the
+-- logged mode can be counted in SQL (a day with study logged extends the
+-- streak, an off day is skipped, any other day breaks it); children already
+-- switched to green are counted on their next write. The checkpoint is the
+-- Sunday before the recent window, as the API keeps it.
+WITH bounds AS (
+  SELECT date_trunc('week', (now() AT TIME ZONE 'UTC')::date - 7)::date - 1 AS through
+),
+steps AS (
+  SELECT c.id AS child_id,
+         d::date AS date,
+         CASE
+           WHEN EXISTS (
+             SELECT 1 FROM study_logs l
+             WHERE l.child_id = c.id AND l.date = d::date AND l.minutes > 0
+           ) THEN 1
+           WHEN EXISTS (
+             SELECT 1 FROM off_periods p
+             WHERE p.household_id = c.household_id
+               AND (p.child_id IS NULL OR p.child_id = c.id)
+               AND d::date BETWEEN p.start_date AND p.end_date
+           ) THEN NULL
+           ELSE 0
+         END AS step
+  FROM children c
+  CROSS JOIN bounds b
+  CROSS JOIN LATERAL generate_series(
+    (SELECT MIN(l.date) FROM study_logs l WHERE l.child_id = c.id),
+    b.through,
+    interval '1 day'
+  ) AS d
+  WHERE c.streak_mode = 'logged'
+),
+-- Every break starts a new run; the last run is the current streak.
+runs AS (
+  SELECT child_id, date, step,
+         COUNT(*) FILTER (WHERE step = 0) OVER (PARTITION BY child_id ORDER BY date) AS run
+  FROM steps
+),
+run_lengths AS (
+  SELECT child_id, run,
+         COUNT(*) FILTER (WHERE step = 1) AS length,
+         MIN(date) FILTER (WHERE step = 1) AS since
+  FROM runs
+  GROUP BY child_id, run
+),
+streaks AS (
+  SELECT DISTINCT ON (child_id)
+         child_id, length AS current, since,
+         MAX(length) OVER (PARTITION BY child_id) AS longest
+  FROM run_lengths
+  ORDER BY child_id, run DESC
+)
+UPDATE children c
+SET longest_streak = COALESCE(s.longest, 0),
+    streak_current = COALESCE(s.current, 0),
+    streak_since = CASE WHEN s.current > 0 THEN s.since END,
+    streak_through = b.through
+FROM bounds b, children c2
+LEFT JOIN streaks s ON s.child_id = c2.id
+WHERE c2.id = c.id AND c.streak_mode = 'logged';
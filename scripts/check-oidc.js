@@ -0,0 +1,103 @@
+// Runs the generic OIDC provider code (dist/oauth.js, so `npm run build` first)
+// against scripts/fake-oidc-server.js: a correctly signed ID token has to map to
+// a profile, while one signed with a key outside the JWKS, or userinfo for
+// another subject, has to be rejected.
+const { spawn } = require("child_process");
+const { mkdtempSync, writeFileSync } = require("fs");
+const { tmpdir } = require("os");
+const path = require("path");
+
+const port = Number(process.env.FAKE_OIDC_PORT ?? 4010);
+const issuer = `http://localhost:${port}`;
+const redirectUri = "http://localhost:3000/api/v1/auth/oauth/fake/callback";
+
+const startIssuer = (env) =>
+  new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, [path.join(__dirname, "fake-oidc-server.js")], {
+      env: { ...process.env, FAKE_OIDC_PORT: String(port), ...env },
+      stdio: ["ignore", "pipe", "inherit"],
+    });
+    child.once("error", reject);
+    child.once("exit", (code) => reject(new Error(`fake issuer exited with ${code}`)));
+    child.stdout.once("data", () => resolve(child));
+  });
+
+const stopIssuer = (child) =>
+  new Promise((resolve) => {
+    child.removeAllListeners("exit");
+    child.once("exit", resolve);
+    child.kill();
+  });
+
+// Walks /authorize by hand and exchanges the code the way the callback does.
+const signIn = async (oauth) => {
+  const provider = oauth.loadOauthProviders().get("fake");
+  if (!provider) {
+    throw new Error("fake provider is not registered");
+  }
+  const authorizeUrl = await oauth.buildAuthorizeUrl(provider, redirectUri, "check");
+  const response = await fetch(authorizeUrl, { redirect: "manual" });
+  const location = response.headers.get("location");
+  const code = location ? new URL(location).searchParams.get("code") : null;
+  if (!code) {
+    throw new Error(`authorize did not redirect with a code (${response.status})`);
+  }
+  return oauth.fetchOauthProfile(provider, code, redirectUri);
+};
+
+const run = async (name, env, check) => {
+  const child = await startIssuer(env);
+  try {
+    // A fresh module per case, so discovery and JWKS caches start empty.
+    delete require.cache[require.resolve("../dist/oauth")];
+    await check(require("../dist/oauth"));
+    console.log(`ok - ${name}`);
+  } finally {
+    await stopIssuer(child);
+  }
+};
+
+const main = async () => {
+  const configPath = path.join(mkdtempSync(path.join(tmpdir(), "oidc-")), "providers.json");
+  writeFileSync(
+    configPath,
+    JSON.stringify([
+      { name: "fake", issuer, client_id: "fake-client", client_secret: "fake-secret" },
+    ]),
+  );
+  process.env.OIDC_PROVIDERS_FILE = configPath;
+
+  await run("signed id_token is accepted", {}, async (oauth) => {
+    const profile = await signIn(oauth);
+    if (profile.providerUserId !== "fake-user-1" || !profile.emailVerified) {
+      throw new Error(`unexpected profile ${JSON.stringify(profile)}`);
+    }
+  });
+
+  const badSignature = { FAKE_OIDC_BAD_SIGNATURE: "1" };
+  await run("id_token with an unknown signature is rejected", badSignature, async (oauth) => {
+    const rejected = await signIn(oauth).then(
+      () => false,
+      (error) => error.name === "JsonWebTokenError",
+    );
+    if (!rejected) {
+      throw new Error("id_token with a bad signature was accepted");
+    }
+  });
+
+  const otherSubject = { FAKE_OIDC_USERINFO_SUB: "fake-user-2" };
+  await run("userinfo for another subject is rejected", otherSubject, async (oauth) => {
+    const rejected = await signIn(oauth).then(
+      () => false,
+      (error) => error.message === "OIDC userinfo sub does not match the ID token",
+    );
+    if (!rejected) {
+      throw new Error("userinfo with a different sub was accepted");
+    }
+  });
+};
+
+main().catch((error) => {
+  console.error(`not ok - ${error.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,87 @@
+// Runs the RRULE evaluator (dist/schedule.js, so `npm run build` first) over
+// the cases that are easy to get wrong, checking every day of a range against
+// the occurrences RFC 5545 gives for it.
+const { isScheduledOn, normalizeRrule } = require("../dist/schedule");
+
+const dayMs = 86400000;
+
+const occurrences = (rrule, startDate, from, to) => {
+  const schedule = { days_mask: null, rrule, rdates: [], start_date: startDate, end_date: null };
+  const dates = [];
+  for (let time = Date.parse(`${from}T00:00:00Z`); time <= Date.parse(`${to}T00:00:00Z`); ) {
+    const date = new Date(time).toISOString().slice(0, 10);
+    if (isScheduledOn(schedule, date)) {
+      dates.push(date);
+    }
+    time += dayMs;
+  }
+  return dates;
+};
+
+const cases = [
+  {
+    name: "COUNT with INTERVAL=3 counts only every third day",
+    rrule: "FREQ=DAILY;INTERVAL=3;COUNT=4",
+    start: "2026-01-01",
+    to: "2026-01-31",
+    expected: ["2026-01-01", "2026-01-04", "2026-01-07", "2026-01-10"],
+  },
+  {
+    name: "COUNT with INTERVAL=2 counts only the weeks in the interval",
+    rrule: "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=5",
+    start: "2026-01-05",
+    to: "2026-02-28",
+    expected: ["2026-01-05", "2026-01-07", "2026-01-19", "2026-01-21", "2026-02-02"],
+  },
+  {
+    name: "BYDAY=-1FR is the last Friday of each month",
+    rrule: "FREQ=MONTHLY;BYDAY=-1FR",
+    start: "2026-01-01",
+    to: "2026-04-30",
+    expected: ["2026-01-30", "2026-02-27", "2026-03-27", "2026-04-24"],
+  },
+  {
+    name: "BYMONTHDAY=31 skips months without a 31st",
+    rrule: "FREQ=MONTHLY;BYMONTHDAY=31;COUNT=3",
+    start: "2026-01-31",
+    to: "2026-12-31",
+    expected: ["2026-01-31", "2026-03-31", "2026-05-31"],
+  },
+  // RFC 5545 section 3.8.5.3: the same rule with WKST=SU and WKST=MO.
+  {
+    name: "WEEKLY;INTERVAL=2;WKST=SU puts a Sunday in the week it starts",
+    rrule: "FREQ=WEEKLY;INTERVAL=2;COUNT=4;BYDAY=TU,SU;WKST=SU",
+    start: "1997-08-05",
+    to: "1997-09-30",
+    expected: ["1997-08-05", "1997-08-17", "1997-08-19", "1997-08-31"],
+  },
+  {
+    name: "WEEKLY;INTERVAL=2;WKST=MO puts a Sunday in the week it ends",
+    rrule: "FREQ=WEEKLY;INTERVAL=2;COUNT=4;BYDAY=TU,SU;WKST=MO",
+    start: "1997-08-05",
+    to: "1997-09-30",
+    expected: ["1997-08-05", "1997-08-10", "1997-08-19", "1997-08-24"],
+  },
+];
+
+let failed = false;
+for (const { name, rrule, start, to, expected } of cases) {
+  const actual = occurrences(rrule, start, start, to);
+  if (JSON.stringify(actual) === JSON.stringify(expected)) {
+    console.log(`ok - ${name}`);
+  } else {
+    failed = true;
+    console.error(`not ok - ${name}: expected ${expected.join(",")}, got ${actual.join(",")}`);
+  }
+}
+
+if (normalizeRrule("FREQ=WEEKLY;BYMONTHDAY=1") === null) {
+  console.log("ok - BYMONTHDAY with FREQ=WEEKLY is rejected");
+} else {
+  failed = true;
+  console.error("not ok - BYMONTHDAY with FREQ=WEEKLY was accepted");
+}
+
+if (failed) {
+  process.exit(1);
+}
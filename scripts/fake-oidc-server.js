@@ -0,0 +1,131 @@
+// Local OIDC issuer for trying the generic OIDC login and link flows without a
+// real provider. /authorize approves immediately and redirects back with a code.
+//
+//   npm run fake-oidc
+//
+// and point an OIDC_PROVIDERS_FILE entry at it:
+//   { "name": "fake", "issuer": "http://localhost:4000",
+//     "client_id": "fake-client", "client_secret": "fake-secret" }
+//
+// FAKE_OIDC_SUB / FAKE_OIDC_EMAIL / FAKE_OIDC_NAME set the signed-in user, and
+// FAKE_OIDC_BAD_SIGNATURE=1 signs ID tokens with a key that is not in the JWKS,
+// and FAKE_OIDC_USERINFO_SUB makes /userinfo answer for another subject; the
+// API has to reject both.
+const { generateKeyPairSync, randomBytes } = require("crypto");
+const http = require("http");
+const jwt = require("jsonwebtoken");
+
+const port = Number(process.env.FAKE_OIDC_PORT ?? 4000);
+const issuer = process.env.FAKE_OIDC_ISSUER ?? `http://localhost:${port}`;
+const clientId = process.env.FAKE_OIDC_CLIENT_ID ?? "fake-client";
+const clientSecret = process.env.FAKE_OIDC_CLIENT_SECRET ?? "fake-secret";
+const user = {
+  sub: process.env.FAKE_OIDC_SUB ?? "fake-user-1",
+  email: process.env.FAKE_OIDC_EMAIL ?? "fake-user-1@example.com",
+  email_verified: true,
+  name: process.env.FAKE_OIDC_NAME ?? "Fake User",
+};
+
+const kid = "fake-key-1";
+const signingKey = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const publishedKey = signingKey.publicKey.export({ format: "jwk" });
+const tokenKey =
+  process.env.FAKE_OIDC_BAD_SIGNATURE === "1"
+    ? generateKeyPairSync("rsa", { modulusLength: 2048 }).privateKey
+    : signingKey.privateKey;
+
+// code -> nonce from the authorize request; codes are single use.
+const codes = new Map();
+const accessTokens = new Set();
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk;
+    });
+    req.on("end", () => resolve(new URLSearchParams(body)));
+    req.on("error", reject);
+  });
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", issuer);
+
+  if (req.method === "GET" && url.pathname === "/.well-known/openid-configuration") {
+    return sendJson(res, 200, {
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      userinfo_endpoint: `${issuer}/userinfo`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ["code"],
+      subject_types_supported: ["public"],
+      id_token_signing_alg_values_supported: ["RS256"],
+    });
+  }
+
+  if (req.method === "GET" && url.pathname === "/jwks") {
+    return sendJson(res, 200, { keys: [{ ...publishedKey, kid, alg: "RS256", use: "sig" }] });
+  }
+
+  if (req.method === "GET" && url.pathname === "/authorize") {
+    const redirectUri = url.searchParams.get("redirect_uri");
+    if (url.searchParams.get("client_id") !== clientId || !redirectUri) {
+      return sendJson(res, 400, { error: "invalid_request" });
+    }
+    const code = randomBytes(16).toString("hex");
+    codes.set(code, url.searchParams.get("nonce"));
+    const target = new URL(redirectUri);
+    target.searchParams.set("code", code);
+    target.searchParams.set("state", url.searchParams.get("state") ?? "");
+    res.writeHead(302, { Location: target.toString() });
+    return res.end();
+  }
+
+  if (req.method === "POST" && url.pathname === "/token") {
+    const body = await readBody(req);
+    const code = body.get("code") ?? "";
+    if (body.get("client_id") !== clientId || body.get("client_secret") !== clientSecret) {
+      return sendJson(res, 401, { error: "invalid_client" });
+    }
+    if (!codes.has(code)) {
+      return sendJson(res, 400, { error: "invalid_grant" });
+    }
+    const nonce = codes.get(code);
+    codes.delete(code);
+    const accessToken = randomBytes(16).toString("hex");
+    accessTokens.add(accessToken);
+    const idToken = jwt.sign({ ...user, ...(nonce ? { nonce } : {}) }, tokenKey, {
+      algorithm: "RS256",
+      keyid: kid,
+      issuer,
+      audience: clientId,
+      expiresIn: "5m",
+    });
+    return sendJson(res, 200, {
+      access_token: accessToken,
+      token_type: "Bearer",
+      expires_in: 300,
+      id_token: idToken,
+    });
+  }
+
+  if (req.method === "GET" && url.pathname === "/userinfo") {
+    const accessToken = (req.headers.authorization ?? "").replace(/^Bearer /, "");
+    if (!accessTokens.has(accessToken)) {
+      return sendJson(res, 401, { error: "invalid_token" });
+    }
+    return sendJson(res, 200, { ...user, sub: process.env.FAKE_OIDC_USERINFO_SUB ?? user.sub });
+  }
+
+  return sendJson(res, 404, { error: "not_found" });
+});
+
+server.listen(port, () => {
+  console.log(`fake OIDC issuer listening on ${issuer}`);
+});
@@ -0,0 +1,158 @@
+// Streaks and badges, computed from a window of a child's day-by-day history
+// (the by_day entries of a plan report running up to today). The window only
+// has to hold the streaks it reports; see opensInsideStreak.
+import type { PlanReport } from "./analytics";
+
+// "logged": any day with study logged extends the streak. "green": only days
+// where every planned task was done.
+export type StreakMode = "logged" | "green";
+
+export const isStreakMode = (value: unknown): value is StreakMode =>
+  value === "logged" || value === "green";
+
+type HistoryDay = PlanReport["by_day"][number];
+
+export type BadgeDefinition = {
+  id: string;
+  name: string;
+  description: string;
+};
+
+export const badgeDefinitions: BadgeDefinition[] = [
+  { id: "total_100_hours", name: "100時間達成", description: "学習時間の合計が100時間に到達" },
+  { id: "streak_30_days", name: "30日連続", description: "30日連続で学習" },
+  {
+    id: "first_green_week",
+    name: "はじめてのオールグリーン週",
+    description: "月曜から日曜まで、予定したタスクをすべて完了",
+  },
+];
+
+export type Streaks = {
+  mode: StreakMode;
+  current: number;
+  longest: number;
+  // First day of the current streak, or null when it is 0.
+  current_since: string | null;
+};
+
+// Reached by total study time rather than by a run of days, so it is counted
+// over the whole history instead of a window.
+export const totalMinutesBadge = { id: "total_100_hours", minutes: 100 * 60 };
+
+// The streak running at the end of through, stored per child so a window
+// that opens the day after can carry it in instead of reading further back.
+export type StreakCheckpoint = {
+  through: string;
+  current: number;
+  since: string | null;
+};
+
+export type AchievementResult = {
+  // longest covers the window only.
+  streaks: Streaks;
+  // Day-based badges whose rule is met in the window, with the day each was
+  // first met.
+  earned: { badge: string; earned_on: string }[];
+};
+
+const isGreen = (day: HistoryDay): boolean =>
+  day.planned_count > 0 && day.done_count === day.planned_count;
+
+// true extends the streak, false breaks it, null leaves it as is. Days with
+// nothing expected (off days, or nothing planned in green mode) are skipped,
+// and so is today until it counts.
+const streakStep = (day: HistoryDay, mode: StreakMode, today: string): boolean | null => {
+  const hit = mode === "green" ? isGreen(day) : day.actual_minutes > 0;
+  if (hit) {
+    return true;
+  }
+  if (day.date === today || day.holiday !== null) {
+    return null;
+  }
+  if (mode === "green" && day.planned_count === 0) {
+    return null;
+  }
+  return false;
+};
+
+// Monday of the week holding date.
+export const weekOf = (date: string): string => {
+  const value = new Date(`${date}T00:00:00Z`);
+  value.setUTCDate(value.getUTCDate() - ((value.getUTCDay() + 6) % 7));
+  return value.toISOString().slice(0, 10);
+};
+
+// Whether the streak running at the first day of days may have started
+// earlier: the window opens on a counted day, or has nothing but neutral days.
+// Such a window has to be widened to report that streak in full.
+export const opensInsideStreak = (
+  days: HistoryDay[],
+  mode: StreakMode,
+  today: string,
+): boolean => {
+  for (const day of days) {
+    const step = streakStep(day, mode, today);
+    if (step !== null) {
+      return step;
+    }
+  }
+  return true;
+};
+
+// days must be consecutive, oldest first, and end no later than today.
+// carried is the streak running into the first of them.
+export const buildAchievements = (
+  days: HistoryDay[],
+  mode: StreakMode,
+  today: string,
+  carried: { current: number; since: string | null } = { current: 0, since: null },
+): AchievementResult => {
+  const earned = new Map<string, string>();
+  const earn = (badge: string, date: string) => {
+    if (!earned.has(badge)) {
+      earned.set(badge, date);
+    }
+  };
+
+  let current = carried.current;
+  let currentSince = carried.since;
+  let longest = carried.current;
+  // Per Monday-to-Sunday week: whether every planned day was green, and
+  // whether anything was planned at all.
+  let week = { start: "", days: 0, allGreen: true, planned: false };
+
+  for (const day of days) {
+    const step = streakStep(day, mode, today);
+    if (step === true) {
+      current += 1;
+      currentSince = currentSince ?? day.date;
+      longest = Math.max(longest, current);
+      if (current >= 30) {
+        earn("streak_30_days", day.date);
+      }
+    } else if (step === false) {
+      current = 0;
+      currentSince = null;
+    }
+
+    const weekStart = weekOf(day.date);
+    if (week.start !== weekStart) {
+      week = { start: weekStart, days: 0, allGreen: true, planned: false };
+    }
+    week.days += 1;
+    if (day.holiday === null && day.planned_count > 0) {
+      week.planned = true;
+      week.allGreen = week.allGreen && isGreen(day);
+    }
+    // Only a whole week counts, so a first partial week in days is left out.
+    if (week.days === 7 && week.planned && week.allGreen) {
+      earn("first_green_week", day.date);
+    }
+  }
+
+  return {
+    streaks: { mode, current, longest, current_since: currentSince },
+    earned: Array.from(earned, ([badge, earnedOn]) => ({ badge, earned_on: earnedOn })),
+  };
+};
@@ -0,0 +1,339 @@
+// Planned vs. actual: expands each task's schedule over a date range and
+// compares it with the study logs. Dates are YYYY-MM-DD strings (UTC days).
+import { resolveOccurrence, type TaskException, type TaskSchedule } from "./schedule";
+
+// One saved definition of a task (task_versions), in effect from
+// effective_from until the next version takes over.
+export type PlanTaskVersion = TaskSchedule & {
+  effective_from: string;
+  name: string;
+  subject_id: string;
+  default_minutes: number;
+  is_archived: boolean;
+};
+
+export type PlanLog = {
+  task_id: string;
+  date: string;
+  minutes: number;
+  // Subject of the task version the log was recorded against.
+  subject_id: string;
+};
+
+export type PlanInput = {
+  from: string;
+  to: string;
+  // Days after today aren't due yet, so they are left out; today's unfinished
+  // tasks are not counted as skipped.
+  today: string;
+  // Each list sorted by version, oldest first.
+  versionsByTaskId: Map<string, PlanTaskVersion[]>;
+  exceptionsByTaskId: Map<string, TaskException[]>;
+  offDays: Map<string, { reason: string }>;
+  logs: PlanLog[];
+};
+
+export type PlanStats = {
+  planned_minutes: number;
+  actual_minutes: number;
+  planned_count: number;
+  done_count: number;
+  skipped_count: number;
+  // done_count / planned_count in percent, or null when nothing was planned.
+  completion_rate: number | null;
+};
+
+type StatsCounter = Omit<PlanStats, "completion_rate">;
+
+export type PlanReport = PlanStats & {
+  // Last day included: min(to, today).
+  evaluated_to: string | null;
+  by_day: (PlanStats & { date: string; holiday: string | null })[];
+  by_subject: (PlanStats & { subject_id: string })[];
+  by_task: (PlanStats & {
+    task_id: string;
+    name: string;
+    subject_id: string;
+    skipped_dates: string[];
+  })[];
+};
+
+const emptyCounter = (): StatsCounter => ({
+  planned_minutes: 0,
+  actual_minutes: 0,
+  planned_count: 0,
+  done_count: 0,
+  skipped_count: 0,
+});
+
+const withRate = (counter: StatsCounter): PlanStats => ({
+  ...counter,
+  completion_rate:
+    counter.planned_count === 0
+      ? null
+      : Math.round((counter.done_count / counter.planned_count) * 100),
+});
+
+export const addDays = (value: string, days: number): string => {
+  const date = new Date(`${value}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+const versionOn = (versions: PlanTaskVersion[], date: string): PlanTaskVersion | null => {
+  let current: PlanTaskVersion | null = null;
+  for (const version of versions) {
+    if (version.effective_from > date) {
+      break;
+    }
+    current = version;
+  }
+  return current;
+};
+
+export const buildPlanReport = (input: PlanInput): PlanReport => {
+  const lastDay = input.to < input.today ? input.to : input.today;
+  const totals = emptyCounter();
+  const byDay = new Map<string, PlanReport["by_day"][number]>();
+  const bySubject = new Map<string, StatsCounter>();
+  const byTask = new Map<string, StatsCounter & { subject_id: string; skipped_dates: string[] }>();
+
+  const loggedMinutes = new Map<string, number>();
+  for (const log of input.logs) {
+    loggedMinutes.set(`${log.task_id}:${log.date}`, log.minutes);
+  }
+
+  const subjectCounter = (subjectId: string) => {
+    const counter = bySubject.get(subjectId) ?? emptyCounter();
+    bySubject.set(subjectId, counter);
+    return counter;
+  };
+  const taskCounter = (taskId: string, subjectId: string) => {
+    const counter = byTask.get(taskId) ?? {
+      ...emptyCounter(),
+      subject_id: subjectId,
+      skipped_dates: [],
+    };
+    byTask.set(taskId, counter);
+    return counter;
+  };
+  // Tasks are listed under their latest name and subject in the range.
+  const latestVersion = (taskId: string) => {
+    const versions = input.versionsByTaskId.get(taskId) ?? [];
+    return versionOn(versions, lastDay) ?? versions[0] ?? null;
+  };
+
+  for (let date = input.from; date <= lastDay; date = addDays(date, 1)) {
+    const day = emptyCounter();
+    const offDay = input.offDays.get(date) ?? null;
+
+    // Nothing is due on off days; logs from those days still count as actual.
+    if (!offDay) {
+      for (const [taskId, versions] of input.versionsByTaskId) {
+        const version = versionOn(versions, date);
+        if (!version || version.is_archived) {
+          continue;
+        }
+        const occurrence = resolveOccurrence(
+          version,
+          input.exceptionsByTaskId.get(taskId) ?? [],
+          date,
+        );
+        if (!occurrence) {
+          continue;
+        }
+
+        const plannedMinutes = occurrence.minutes ?? version.default_minutes;
+        const done = loggedMinutes.has(`${taskId}:${date}`);
+        const skipped = !done && date < input.today;
+        const task = taskCounter(taskId, version.subject_id);
+        if (skipped) {
+          task.skipped_dates.push(date);
+        }
+        for (const counter of [day, totals, subjectCounter(version.subject_id), task]) {
+          counter.planned_minutes += plannedMinutes;
+          counter.planned_count += 1;
+          counter.done_count += done ? 1 : 0;
+          counter.skipped_count += skipped ? 1 : 0;
+        }
+      }
+    }
+
+    byDay.set(date, { date, holiday: offDay?.reason ?? null, ...withRate(day) });
+  }
+
+  // Actual minutes include logs for tasks that weren't planned that day.
+  for (const log of input.logs) {
+    if (log.date < input.from || log.date > lastDay) {
+      continue;
+    }
+    const day = byDay.get(log.date);
+    if (day) {
+      day.actual_minutes += log.minutes;
+    }
+    totals.actual_minutes += log.minutes;
+    subjectCounter(log.subject_id).actual_minutes += log.minutes;
+    taskCounter(log.task_id, log.subject_id).actual_minutes += log.minutes;
+  }
+
+  return {
+    evaluated_to: lastDay >= input.from ? lastDay : null,
+    ...withRate(totals),
+    by_day: Array.from(byDay.values()),
+    by_subject: Array.from(bySubject, ([subjectId, counter]) => ({
+      subject_id: subjectId,
+      ...withRate(counter),
+    })),
+    by_task: Array.from(byTask, ([taskId, { subject_id, skipped_dates, ...counter }]) => {
+      const latest = latestVersion(taskId);
+      return {
+        task_id: taskId,
+        name: latest?.name ?? "",
+        subject_id: latest?.subject_id ?? subject_id,
+        skipped_dates,
+        ...withRate(counter),
+      };
+    }),
+  };
+};
+
+export type WeekStart = "monday" | "sunday";
+
+// "2026-W03" (ISO 8601 week) -> its first and last day. With a Sunday week
+// start the range begins the day before the ISO Monday.
+export const parseIsoWeek = (
+  value: string,
+  weekStart: WeekStart,
+): { from: string; to: string } | null => {
+  const match = /^(\d{4})-W(\d{2})$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  const year = Number(match[1]);
+  const week = Number(match[2]);
+  // Week 1 is the week holding January 4th.
+  const jan4 = new Date(Date.UTC(year, 0, 4));
+  const week1Monday = addDays(jan4.toISOString().slice(0, 10), -((jan4.getUTCDay() + 6) % 7));
+  const monday = addDays(week1Monday, (week - 1) * 7);
+  // The ISO year owns the week its Thursday falls in; rejects W00 and a W53 that doesn't exist.
+  if (week < 1 || addDays(monday, 3).slice(0, 4) !== match[1]) {
+    return null;
+  }
+  const from = weekStart === "sunday" ? addDays(monday, -1) : monday;
+  return { from, to: addDays(from, 6) };
+};
+
+const rateDelta = (current: number | null, previous: number | null): number | null =>
+  current === null || previous === null ? null : current - previous;
+
+type WeekTotals = {
+  from: string;
+  to: string;
+  total_minutes: number;
+  planned_minutes: number;
+  completion_rate: number | null;
+};
+
+const weekTotals = (report: PlanReport, from: string, to: string): WeekTotals => ({
+  from,
+  to,
+  total_minutes: report.actual_minutes,
+  planned_minutes: report.planned_minutes,
+  completion_rate: report.completion_rate,
+});
+
+// Pairs this week's entries with last week's by key; entries only present
+// last week still show up with zero minutes this week.
+const compareEntries = <T extends PlanStats>(
+  current: T[],
+  previous: T[],
+  key: (entry: T) => string,
+) => {
+  const previousByKey = new Map(previous.map((entry) => [key(entry), entry]));
+  const currentKeys = new Set(current.map(key));
+  const dropped = previous
+    .filter((entry) => !currentKeys.has(key(entry)))
+    .map((entry) => ({
+      ...entry,
+      planned_minutes: 0,
+      actual_minutes: 0,
+      planned_count: 0,
+      done_count: 0,
+      skipped_count: 0,
+      completion_rate: null,
+    }));
+  return [...current, ...dropped].map((entry) => {
+    const before = previousByKey.get(key(entry));
+    return {
+      ...entry,
+      previous_minutes: before?.actual_minutes ?? 0,
+      delta_minutes: entry.actual_minutes - (before?.actual_minutes ?? 0),
+      delta_completion_rate: rateDelta(entry.completion_rate, before?.completion_rate ?? null),
+    };
+  });
+};
+
+// The week from..to compared with the week before it and with the average of
+// the four weeks before it. input must cover from - 28 days through to.
+export const buildWeeklyReport = (
+  input: Omit<PlanInput, "from" | "to">,
+  from: string,
+  to: string,
+) => {
+  const weekBefore = (weeksBack: number) => {
+    const weekFrom = addDays(from, -7 * weeksBack);
+    const weekTo = addDays(to, -7 * weeksBack);
+    return { report: buildPlanReport({ ...input, from: weekFrom, to: weekTo }), weekFrom, weekTo };
+  };
+  const current = buildPlanReport({ ...input, from, to });
+  const previous = weekBefore(1);
+  const trailing = [previous, weekBefore(2), weekBefore(3), weekBefore(4)];
+
+  // Best/worst days only consider days that had something planned.
+  const rankedDays = current.by_day
+    .filter((day) => day.completion_rate !== null)
+    .sort(
+      (a, b) =>
+        (b.completion_rate ?? 0) - (a.completion_rate ?? 0) || b.actual_minutes - a.actual_minutes,
+    );
+
+  const trailingPlanned = trailing.reduce((sum, week) => sum + week.report.planned_count, 0);
+  const trailingDone = trailing.reduce((sum, week) => sum + week.report.done_count, 0);
+  const average = {
+    total_minutes: Math.round(
+      trailing.reduce((sum, week) => sum + week.report.actual_minutes, 0) / trailing.length,
+    ),
+    planned_minutes: Math.round(
+      trailing.reduce((sum, week) => sum + week.report.planned_minutes, 0) / trailing.length,
+    ),
+    completion_rate:
+      trailingPlanned === 0 ? null : Math.round((trailingDone / trailingPlanned) * 100),
+  };
+
+  return {
+    ...weekTotals(current, from, to),
+    evaluated_to: current.evaluated_to,
+    planned_count: current.planned_count,
+    done_count: current.done_count,
+    skipped_count: current.skipped_count,
+    best_day: rankedDays[0] ?? null,
+    worst_day: rankedDays.length > 1 ? (rankedDays[rankedDays.length - 1] ?? null) : null,
+    by_day: current.by_day,
+    by_subject: compareEntries(
+      current.by_subject,
+      previous.report.by_subject,
+      (entry) => entry.subject_id,
+    ),
+    by_task: compareEntries(current.by_task, previous.report.by_task, (entry) => entry.task_id),
+    previous_week: weekTotals(previous.report, previous.weekFrom, previous.weekTo),
+    delta: {
+      total_minutes: current.actual_minutes - previous.report.actual_minutes,
+      completion_rate: rateDelta(current.completion_rate, previous.report.completion_rate),
+    },
+    trailing_4_week_average: average,
+    delta_from_average: {
+      total_minutes: current.actual_minutes - average.total_minutes,
+      completion_rate: rateDelta(current.completion_rate, average.completion_rate),
+    },
+  };
+};
@@ -0,0 +1,107 @@
+// Study goals ("300 minutes of math per week") and their progress, measured
+// with the plan report of the goal's period.
+import { addDays, type PlanReport } from "./analytics";
+
+export type GoalPeriod = "week" | "month";
+export type GoalMetric = "minutes" | "completion_rate";
+
+export type Goal = {
+  id: string;
+  // null for a goal over all subjects.
+  subject_id: string | null;
+  period: GoalPeriod;
+  metric: GoalMetric;
+  // Minutes, or a completion rate in percent.
+  target: number;
+};
+
+export type GoalStatus = "achieved" | "on_track" | "behind" | "missed";
+
+export const isGoalPeriod = (value: unknown): value is GoalPeriod =>
+  value === "week" || value === "month";
+
+export const isGoalMetric = (value: unknown): value is GoalMetric =>
+  value === "minutes" || value === "completion_rate";
+
+export const isValidGoalTarget = (metric: GoalMetric, target: unknown): target is number =>
+  typeof target === "number" &&
+  Number.isInteger(target) &&
+  target >= 1 &&
+  (metric === "minutes" || target <= 100);
+
+// The week (Monday to Sunday) or calendar month holding date.
+export const goalPeriodRange = (
+  period: GoalPeriod,
+  date: string,
+): { from: string; to: string } => {
+  if (period === "week") {
+    const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+    const from = addDays(date, -((day + 6) % 7));
+    return { from, to: addDays(from, 6) };
+  }
+  const from = `${date.slice(0, 7)}-01`;
+  const nextMonth = new Date(`${from}T00:00:00Z`);
+  nextMonth.setUTCMonth(nextMonth.getUTCMonth() + 1);
+  return { from, to: addDays(nextMonth.toISOString().slice(0, 10), -1) };
+};
+
+const dayDiff = (from: string, to: string): number =>
+  Math.round(
+    (new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / 86400000,
+  );
+
+// report is the plan report for range (from goalPeriodRange), built with the
+// same today.
+export const buildGoalProgress = (
+  goal: Goal,
+  range: { from: string; to: string },
+  report: PlanReport,
+  today: string,
+) => {
+  const { from, to } = range;
+  const daysTotal = dayDiff(from, to) + 1;
+  const daysElapsed = today < from ? 0 : dayDiff(from, to < today ? to : today) + 1;
+  const isOver = to < today;
+
+  const stats =
+    goal.subject_id === null
+      ? report
+      : report.by_subject.find((entry) => entry.subject_id === goal.subject_id);
+
+  let actual: number | null;
+  let projected: number | null;
+  if (goal.metric === "minutes") {
+    actual = stats?.actual_minutes ?? 0;
+    // At the pace so far.
+    projected = daysElapsed === 0 ? actual : Math.round((actual / daysElapsed) * daysTotal);
+  } else {
+    actual = stats?.completion_rate ?? null;
+    projected = actual;
+  }
+
+  let status: GoalStatus;
+  if (isOver) {
+    status = actual !== null && actual >= goal.target ? "achieved" : "missed";
+  } else if (goal.metric === "minutes") {
+    // Minutes only add up, so a reached target stays reached.
+    if (actual !== null && actual >= goal.target) {
+      status = "achieved";
+    } else {
+      status = projected !== null && projected >= goal.target ? "on_track" : "behind";
+    }
+  } else {
+    // Nothing planned yet counts as on track.
+    status = actual === null || actual >= goal.target ? "on_track" : "behind";
+  }
+
+  return {
+    period_from: from,
+    period_to: to,
+    days_elapsed: daysElapsed,
+    days_total: daysTotal,
+    actual,
+    progress: actual === null ? null : Math.round((actual / goal.target) * 100),
+    projected,
+    status,
+  };
+};
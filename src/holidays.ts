@@ -0,0 +1,140 @@
+// Parses holiday calendars into inclusive date ranges for off_periods.
+// Supported inputs:
+//   ics  - VEVENTs with all-day DTSTART/DTEND (DTEND is exclusive, per RFC 5545)
+//   json - [{"date","name"}], [{"start_date","end_date","reason"}], or the
+//          {"YYYY-MM-DD": "name"} map served by holidays-jp style APIs
+
+export type HolidayCalendarFormat = "ics" | "json";
+
+export type OffPeriodInput = {
+  start_date: string;
+  end_date: string;
+  reason: string;
+};
+
+const maxEntries = 1000;
+
+const isValidDateKey = (value: unknown): value is string => {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === value;
+};
+
+const addDays = (value: string, days: number): string => {
+  const date = new Date(`${value}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+const pickReason = (value: unknown): string | null =>
+  typeof value === "string" && value.trim() ? value.trim().slice(0, 200) : null;
+
+// DTSTART;VALUE=DATE:20260101 or DTSTART:20260101T000000Z -> 2026-01-01
+const parseIcsDate = (value: string): string | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+  if (!match) {
+    return null;
+  }
+  const date = `${match[1]}-${match[2]}-${match[3]}`;
+  return isValidDateKey(date) ? date : null;
+};
+
+const unescapeIcsText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === "n" ? "\n" : char));
+
+const parseIcs = (content: string): OffPeriodInput[] | null => {
+  // Long lines are folded with CRLF followed by a space or tab.
+  const lines = content.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const periods: OffPeriodInput[] = [];
+  let event: Map<string, string> | null = null;
+
+  for (const line of lines) {
+    if (line === "BEGIN:VEVENT") {
+      event = new Map();
+      continue;
+    }
+    if (line === "END:VEVENT") {
+      if (!event) {
+        return null;
+      }
+      const start = parseIcsDate(event.get("DTSTART") ?? "");
+      const endValue = event.get("DTEND");
+      const end = endValue ? parseIcsDate(endValue) : start;
+      if (!start || !end) {
+        return null;
+      }
+      periods.push({
+        start_date: start,
+        // DTEND is exclusive; a missing DTEND means a single day.
+        end_date: endValue && end > start ? addDays(end, -1) : start,
+        reason: pickReason(unescapeIcsText(event.get("SUMMARY") ?? "")) ?? "holiday",
+      });
+      event = null;
+      continue;
+    }
+    if (event) {
+      const separator = line.indexOf(":");
+      if (separator > 0) {
+        const name = line.slice(0, separator).split(";")[0]?.toUpperCase() ?? "";
+        event.set(name, line.slice(separator + 1));
+      }
+    }
+  }
+
+  return periods;
+};
+
+const parseJson = (content: string): OffPeriodInput[] | null => {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    return null;
+  }
+
+  if (typeof data === "object" && data !== null && !Array.isArray(data)) {
+    const periods: OffPeriodInput[] = [];
+    for (const [date, name] of Object.entries(data)) {
+      if (!isValidDateKey(date)) {
+        return null;
+      }
+      periods.push({ start_date: date, end_date: date, reason: pickReason(name) ?? "holiday" });
+    }
+    return periods;
+  }
+
+  if (!Array.isArray(data)) {
+    return null;
+  }
+  const periods: OffPeriodInput[] = [];
+  for (const entry of data) {
+    if (typeof entry !== "object" || entry === null) {
+      return null;
+    }
+    const start = entry.start_date ?? entry.date;
+    const end = entry.end_date ?? start;
+    if (!isValidDateKey(start) || !isValidDateKey(end) || start > end) {
+      return null;
+    }
+    periods.push({
+      start_date: start,
+      end_date: end,
+      reason: pickReason(entry.reason) ?? pickReason(entry.name) ?? "holiday",
+    });
+  }
+  return periods;
+};
+
+// Returns null when the content can't be parsed or has too many entries.
+export const parseHolidayCalendar = (
+  content: string,
+  format: HolidayCalendarFormat,
+): OffPeriodInput[] | null => {
+  const periods = format === "ics" ? parseIcs(content) : parseJson(content);
+  if (!periods || periods.length > maxEntries) {
+    return null;
+  }
+  return periods;
+};
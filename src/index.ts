@@ -1,10 +1,69 @@
 import bcrypt from "bcrypt";
 import cors from "cors";
 import express from "express";
+import { createHash, randomBytes } from "crypto";
 import jwt from "jsonwebtoken";
+import type { PoolClient } from "pg";
+import {
+  badgeDefinitions,
+  buildAchievements,
+  isStreakMode,
+  opensInsideStreak,
+  totalMinutesBadge,
+  weekOf,
+  type AchievementResult,
+  type StreakCheckpoint,
+  type StreakMode,
+} from "./achievements";
+import {
+  addDays,
+  buildPlanReport,
+  buildWeeklyReport,
+  parseIsoWeek,
+  type PlanInput,
+  type PlanReport,
+  type PlanTaskVersion,
+} from "./analytics";
+import { createZip, toCsv } from "./archive";
 import { pool } from "./db";
+import {
+  buildGoalProgress,
+  goalPeriodRange,
+  isGoalMetric,
+  isGoalPeriod,
+  isValidGoalTarget,
+} from "./goals";
+import { parseHolidayCalendar } from "./holidays";
+import { createMailTransport } from "./mail";
+import {
+  isScheduledOn,
+  isValidSchedule,
+  normalizeRrule,
+  resolveOccurrence,
+  type TaskException,
+  type TaskSchedule,
+} from "./schedule";
+import { buildAuthorizeUrl, fetchOauthProfile, loadOauthProviders } from "./oauth";
+import {
+  createLockout,
+  createRateLimitStore,
+  loadRateLimitPolicies,
+  rateLimit,
+  sendTooManyRequests,
+} from "./rateLimit";
+import {
+  findStarterPack,
+  parseTemplateTasks,
+  starterPacks,
+  type TemplateTask,
+} from "./templates";
 
 const app = express();
+const trustProxy = process.env.TRUST_PROXY;
+if (trustProxy) {
+  // Needed behind a load balancer so req.ip is the client address.
+  app.set("trust proxy", /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy);
+}
 console.log("CORS_ORIGINS=", process.env.CORS_ORIGINS);
 const envOrigins = (process.env.CORS_ORIGINS ?? "")
   .split(",")
@@ -45,14 +104,121 @@ app.get("/health", (_req, res) => {
   res.json({ status: "ok" });
 });
 
-type AuthenticatedRequest = express.Request & { userId: string };
+// "full" is a normal parent login. Restricted tokens carry narrower scopes and,
+// for kid sessions, the one child they may touch (childScope). "redeem" (spending
+// points) is only ever given to kid sessions, never to API tokens.
+type AuthScope = "full" | "read" | "daily_view" | "log_write" | "redeem";
+
+type AuthContext = {
+  userId: string;
+  sessionId: string | null;
+  scopes: AuthScope[];
+  childScope: string | null;
+};
+
+type AuthenticatedRequest = express.Request & AuthContext;
+
+const hasScope = (
+  auth: AuthContext,
+  scope: AuthScope,
+  childId: string | null = null,
+): boolean => {
+  if (auth.scopes.includes("full")) {
+    return true;
+  }
+  if (auth.childScope !== null && auth.childScope !== childId) {
+    return false;
+  }
+  if (scope === "daily_view" && auth.scopes.includes("read")) {
+    return true;
+  }
+  return auth.scopes.includes(scope);
+};
 
 const isUuid = (value: string): boolean =>
   /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
     value,
   );
 
-const authMiddleware: express.RequestHandler = (req, res, next) => {
+const accessTokenTtlSeconds = Number(process.env.ACCESS_TOKEN_TTL_SECONDS) || 900;
+const refreshTokenTtlDays = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+// The frontend exchanges the code right after the OAuth redirect.
+const loginCodeTtlSeconds = 60;
+const kidTokenTtlSeconds = Number(process.env.KID_TOKEN_TTL_SECONDS) || 12 * 3600;
+
+type Queryable = Pick<PoolClient, "query">;
+
+const hashToken = (token: string): string =>
+  createHash("sha256").update(token).digest("hex");
+
+const isTokenExpiredError = (error: unknown): boolean =>
+  typeof error === "object" &&
+  error !== null &&
+  "name" in error &&
+  (error as { name?: string }).name === "TokenExpiredError";
+
+const createSession = async (
+  db: Queryable,
+  userId: string,
+  req: express.Request,
+): Promise<string> => {
+  const result = await db.query(
+    "INSERT INTO sessions (user_id, user_agent, ip) VALUES ($1, $2, $3) RETURNING id",
+    [userId, req.header("user-agent") ?? null, req.ip ?? null],
+  );
+  return result.rows[0].id;
+};
+
+// Issues a short-lived access token plus an opaque refresh token bound to the
+// session. Each refresh rotates the refresh token within the same session.
+const issueTokens = async (
+  db: Queryable,
+  userId: string,
+  sessionId: string,
+): Promise<{ token: string; refresh_token: string; expires_in: number }> => {
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!jwtSecret) {
+    throw new Error("JWT_SECRET is not set");
+  }
+
+  const refreshToken = randomBytes(32).toString("base64url");
+  await db.query(
+    `INSERT INTO refresh_tokens (user_id, session_id, token_hash, expires_at)
+     VALUES ($1, $2, $3, now() + make_interval(days => $4))`,
+    [userId, sessionId, hashToken(refreshToken), refreshTokenTtlDays],
+  );
+
+  const token = jwt.sign(
+    { user_id: userId, typ: "access", sid: sessionId },
+    jwtSecret,
+    { expiresIn: accessTokenTtlSeconds },
+  );
+  return { token, refresh_token: refreshToken, expires_in: accessTokenTtlSeconds };
+};
+
+const revokeSessions = async (
+  db: Queryable,
+  userId: string,
+  sessionIds: string[],
+): Promise<number> => {
+  const result = await db.query(
+    `UPDATE sessions SET revoked_at = now()
+     WHERE user_id = $1 AND id = ANY($2::uuid[]) AND revoked_at IS NULL`,
+    [userId, sessionIds],
+  );
+  await db.query(
+    `UPDATE refresh_tokens SET revoked_at = now()
+     WHERE user_id = $1 AND session_id = ANY($2::uuid[]) AND revoked_at IS NULL`,
+    [userId, sessionIds],
+  );
+  return result.rowCount ?? 0;
+};
+
+// Personal access tokens are opaque random strings, told apart from JWTs by this prefix.
+const apiTokenPrefix = "lma_";
+const apiTokenScopes = ["read", "log_write"] as const;
+
+const authMiddleware: express.RequestHandler = async (req, res, next) => {
   const authHeader = req.header("authorization");
   const token = authHeader?.startsWith("Bearer ") ? authHeader.slice(7) : null;
 
@@ -60,35 +226,136 @@ const authMiddleware: express.RequestHandler = (req, res, next) => {
     return res.status(401).json({ error: "unauthorized" });
   }
 
+  if (token.startsWith(apiTokenPrefix)) {
+    try {
+      const result = await pool.query(
+        `SELECT id, user_id, scopes, last_used_at > now() - interval '1 minute' AS recently_used
+         FROM api_tokens
+         WHERE token_hash = $1 AND (expires_at IS NULL OR expires_at > now())`,
+        [hashToken(token)],
+      );
+      const apiToken = result.rows[0];
+      if (!apiToken) {
+        return res.status(401).json({ error: "unauthorized" });
+      }
+      if (!apiToken.recently_used) {
+        await pool.query("UPDATE api_tokens SET last_used_at = now() WHERE id = $1", [
+          apiToken.id,
+        ]);
+      }
+
+      Object.assign(req, {
+        userId: apiToken.user_id,
+        sessionId: null,
+        scopes: apiToken.scopes,
+        childScope: null,
+      } satisfies AuthContext);
+      return next();
+    } catch (error) {
+      console.error("auth api token lookup failed", error);
+      return res.status(500).json({ error: "internal server error" });
+    }
+  }
+
   const jwtSecret = process.env.JWT_SECRET;
   if (!jwtSecret) {
     return res.status(500).json({ error: "JWT_SECRET is not set" });
   }
 
+  let payload: string | jwt.JwtPayload;
   try {
-    const payload = jwt.verify(token, jwtSecret);
-    if (
-      typeof payload !== "object" ||
-      payload === null ||
-      !("user_id" in payload) ||
-      typeof payload.user_id !== "string"
-    ) {
+    payload = jwt.verify(token, jwtSecret);
+  } catch (error) {
+    if (isTokenExpiredError(error)) {
+      return res.status(401).json({ error: "token_expired" });
+    }
+    return res.status(401).json({ error: "unauthorized" });
+  }
+
+  if (typeof payload !== "object" || payload === null || typeof payload.user_id !== "string") {
+    return res.status(401).json({ error: "unauthorized" });
+  }
+
+  if (payload.typ === "kid") {
+    if (typeof payload.child_id !== "string" || typeof payload.kv !== "number") {
       return res.status(401).json({ error: "unauthorized" });
     }
+    try {
+      // Changing or removing the PIN bumps kid_token_version, revoking kid tokens.
+      const childResult = await pool.query(
+        `SELECT 1 FROM children
+         WHERE id = $1 AND is_active = true AND pin_hash IS NOT NULL AND kid_token_version = $2`,
+        [payload.child_id, payload.kv],
+      );
+      if (childResult.rowCount === 0) {
+        return res.status(401).json({ error: "token_revoked" });
+      }
+    } catch (error) {
+      console.error("auth kid token lookup failed", error);
+      return res.status(500).json({ error: "internal server error" });
+    }
 
-    (req as AuthenticatedRequest).userId = payload.user_id;
+    Object.assign(req, {
+      userId: payload.user_id,
+      sessionId: null,
+      scopes: ["daily_view", "log_write", "redeem"],
+      childScope: payload.child_id,
+    } satisfies AuthContext);
     return next();
-  } catch (error) {
+  }
+
+  if (payload.typ !== "access" || typeof payload.sid !== "string") {
     return res.status(401).json({ error: "unauthorized" });
   }
+
+  try {
+    // An access token stays usable only while its session is alive, so logout
+    // and session revocation take effect before the token expires.
+    const sessionResult = await pool.query(
+      `SELECT last_seen_at < now() - interval '1 minute' AS is_stale
+       FROM sessions
+       WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL`,
+      [payload.sid, payload.user_id],
+    );
+    const session = sessionResult.rows[0];
+    if (!session) {
+      return res.status(401).json({ error: "token_revoked" });
+    }
+    if (session.is_stale) {
+      await pool.query(
+        "UPDATE sessions SET last_seen_at = now(), ip = $1 WHERE id = $2",
+        [req.ip ?? null, payload.sid],
+      );
+    }
+  } catch (error) {
+    console.error("auth session lookup failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+
+  Object.assign(req, {
+    userId: payload.user_id,
+    sessionId: payload.sid,
+    scopes: ["full"],
+    childScope: null,
+  } satisfies AuthContext);
+  return next();
+};
+
+// For route groups that only a full parent login may use.
+const requireFullScope: express.RequestHandler = (req, res, next) => {
+  if (!hasScope(req as AuthenticatedRequest, "full")) {
+    return res.status(403).json({ error: "forbidden" });
+  }
+  return next();
 };
 
-app.get("/api/v1/me", authMiddleware, async (req, res) => {
+app.get("/api/v1/me", authMiddleware, requireFullScope, async (req, res) => {
   const { userId } = req as AuthenticatedRequest;
 
   try {
     const result = await pool.query(
-      "SELECT id, email, display_name, avatar_url, provider FROM users WHERE id = $1",
+      `SELECT id, email, display_name, avatar_url, provider, email_verified_at IS NOT NULL AS email_verified
+       FROM users WHERE id = $1`,
       [userId],
     );
     const user = result.rows[0];
@@ -102,46 +369,233 @@ app.get("/api/v1/me", authMiddleware, async (req, res) => {
   }
 });
 
-const fetchFn = (globalThis as { fetch?: (input: string, init?: any) => Promise<any> })
-  .fetch;
-const fetchJson = async (
-  url: string,
-  options: { method?: string; headers?: Record<string, string>; body?: string },
-): Promise<any> => {
-  if (!fetchFn) {
-    throw new Error("fetch is not available");
+app.use("/api/v1/me", authMiddleware, requireFullScope);
+
+app.get("/api/v1/me/sessions", async (req, res) => {
+  const { userId, sessionId } = req as AuthenticatedRequest;
+
+  try {
+    const result = await pool.query(
+      `SELECT s.id, s.user_agent, s.ip, s.created_at, s.last_seen_at
+       FROM sessions s
+       WHERE s.user_id = $1
+         AND s.revoked_at IS NULL
+         AND EXISTS (
+           SELECT 1 FROM refresh_tokens r
+           WHERE r.session_id = s.id AND r.revoked_at IS NULL AND r.expires_at > now()
+         )
+       ORDER BY s.last_seen_at DESC`,
+      [userId],
+    );
+    const sessions = result.rows.map((row) => ({
+      ...row,
+      is_current: row.id === sessionId,
+    }));
+    return res.json(sessions);
+  } catch (error) {
+    console.error("list sessions failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+app.delete("/api/v1/me/sessions/:id", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { id } = req.params;
+
+  if (!isUuid(id)) {
+    return res.status(400).json({ error: "invalid_request" });
   }
-  const response = await fetchFn(url, options);
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(`oauth request failed: ${response.status} ${text}`);
+
+  try {
+    const revoked = await revokeSessions(pool, userId, [id]);
+    if (revoked === 0) {
+      return res.status(404).json({ error: "not_found" });
+    }
+    return res.status(204).send();
+  } catch (error) {
+    console.error("revoke session failed", error);
+    return res.status(500).json({ error: "internal server error" });
   }
-  return response.json();
-};
+});
+
+// Logs out everywhere else: every session except the one making the request.
+app.delete("/api/v1/me/sessions", async (req, res) => {
+  const { userId, sessionId } = req as AuthenticatedRequest;
+
+  try {
+    const result = await pool.query(
+      "SELECT id FROM sessions WHERE user_id = $1 AND id <> $2 AND revoked_at IS NULL",
+      [userId, sessionId],
+    );
+    const revoked = await revokeSessions(
+      pool,
+      userId,
+      result.rows.map((row) => row.id),
+    );
+    return res.json({ revoked });
+  } catch (error) {
+    console.error("revoke other sessions failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+app.get("/api/v1/me/tokens", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+
+  try {
+    const result = await pool.query(
+      `SELECT id, name, scopes, expires_at, last_used_at, created_at
+       FROM api_tokens
+       WHERE user_id = $1
+       ORDER BY created_at DESC`,
+      [userId],
+    );
+    return res.json(result.rows);
+  } catch (error) {
+    console.error("list api tokens failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+// The plain token is only returned here; the table keeps its hash.
+app.post("/api/v1/me/tokens", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { name, scopes, expires_in_days } = req.body ?? {};
+
+  if (typeof name !== "string" || !name.trim() || name.trim().length > 100) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (
+    !Array.isArray(scopes) ||
+    scopes.length === 0 ||
+    !scopes.every((scope) => apiTokenScopes.includes(scope)) ||
+    new Set(scopes).size !== scopes.length
+  ) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (
+    expires_in_days !== undefined &&
+    expires_in_days !== null &&
+    (!Number.isInteger(expires_in_days) || expires_in_days < 1 || expires_in_days > 365)
+  ) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  const token = `${apiTokenPrefix}${randomBytes(32).toString("base64url")}`;
+
+  try {
+    const result = await pool.query(
+      `INSERT INTO api_tokens (user_id, name, token_hash, scopes, expires_at)
+       VALUES ($1, $2, $3, $4, now() + make_interval(days => $5))
+       RETURNING id, name, scopes, expires_at, created_at`,
+      [userId, name.trim(), hashToken(token), scopes, expires_in_days ?? null],
+    );
+    return res.status(201).json({ ...result.rows[0], token });
+  } catch (error) {
+    console.error("create api token failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+app.delete("/api/v1/me/tokens/:id", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { id } = req.params;
+
+  if (!isUuid(id)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const result = await pool.query("DELETE FROM api_tokens WHERE id = $1 AND user_id = $2", [
+      id,
+      userId,
+    ]);
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: "not_found" });
+    }
+    return res.status(204).send();
+  } catch (error) {
+    console.error("delete api token failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
 
 const getRedirectBaseUrl = (): string | null => {
   return process.env.OAUTH_REDIRECT_BASE_URL ?? null;
 };
 
-const buildFrontendRedirect = (token: string): string | null => {
+const buildFrontendUrl = (
+  pathname: string,
+  params: Record<string, string>,
+): string | null => {
   if (!frontendUrl) {
     return null;
   }
   const base = frontendUrl.replace(/\/$/, "");
-  return `${base}/login/callback?token=${encodeURIComponent(token)}`;
+  return `${base}${pathname}?${new URLSearchParams(params).toString()}`;
 };
 
-const createOauthState = (provider: string): string => {
+const oauthProviders = loadOauthProviders();
+
+// A link flow started from /me/identities carries linkUserId: the callback
+// attaches the provider identity to that user instead of signing in. Its state
+// also holds the hash of a nonce set as a cookie on the browser that started the
+// flow, so a state minted for one account cannot be completed in someone else's
+// browser.
+const oauthLinkCookie = "oauth_link_nonce";
+const oauthCookiePath = "/api/v1/auth/oauth";
+
+const createOauthState = (
+  provider: string,
+  link: { userId: string; nonce: string } | null = null,
+): string => {
   const jwtSecret = process.env.JWT_SECRET;
   if (!jwtSecret) {
     throw new Error("JWT_SECRET is not set");
   }
-  return jwt.sign({ provider, typ: "oauth_state" }, jwtSecret, {
-    expiresIn: "10m",
-  });
+  return jwt.sign(
+    {
+      provider,
+      typ: "oauth_state",
+      link_user_id: link?.userId ?? null,
+      link_nonce: link ? hashToken(link.nonce) : null,
+    },
+    jwtSecret,
+    { expiresIn: "10m" },
+  );
+};
+
+// The link start is an XHR from the frontend and the callback may be a
+// cross-site form_post, so over https the cookie has to be SameSite=None.
+const oauthLinkCookieOptions = (redirectBaseUrl: string): express.CookieOptions => {
+  const secure = redirectBaseUrl.startsWith("https://");
+  return {
+    httpOnly: true,
+    secure,
+    sameSite: secure ? "none" : "lax",
+    path: oauthCookiePath,
+  };
+};
+
+const readCookie = (req: express.Request, name: string): string | null => {
+  for (const part of (req.headers.cookie ?? "").split(";")) {
+    const index = part.indexOf("=");
+    if (index !== -1 && part.slice(0, index).trim() === name) {
+      try {
+        return decodeURIComponent(part.slice(index + 1).trim());
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
 };
 
-const verifyOauthState = (provider: string, state: string): string | null => {
+const verifyOauthState = (
+  provider: string,
+  state: string,
+  linkNonce: string | null,
+): { error: string } | { error: null; linkUserId: string | null } => {
   const jwtSecret = process.env.JWT_SECRET;
   if (!jwtSecret) {
     throw new Error("JWT_SECRET is not set");
@@ -149,29 +603,120 @@ const verifyOauthState = (provider: string, state: string): string | null => {
   try {
     const payload = jwt.verify(state, jwtSecret);
     if (typeof payload !== "object" || payload === null) {
-      return "payload_invalid";
+      return { error: "payload_invalid" };
     }
     if (payload.typ !== "oauth_state") {
-      return "typ_mismatch";
+      return { error: "typ_mismatch" };
     }
     if (payload.provider !== provider) {
-      return "provider_mismatch";
+      return { error: "provider_mismatch" };
     }
-    return null;
+    const linkUserId =
+      typeof payload.link_user_id === "string" ? payload.link_user_id : null;
+    if (linkUserId) {
+      const nonce = linkNonce ? hashToken(linkNonce) : null;
+      if (typeof payload.link_nonce !== "string" || payload.link_nonce !== nonce) {
+        return { error: "link_nonce_mismatch" };
+      }
+    }
+    return { error: null, linkUserId };
   } catch (error) {
-    if (
-      typeof error === "object" &&
-      error !== null &&
-      "name" in error &&
-      (error as { name?: string }).name === "TokenExpiredError"
-    ) {
-      return "expired";
+    if (isTokenExpiredError(error)) {
+      return { error: "expired" };
     }
-    return "signature_mismatch";
+    return { error: "signature_mismatch" };
+  }
+};
+
+const rateLimitStore = createRateLimitStore(pool);
+const rateLimitPolicies = loadRateLimitPolicies();
+const byIp = (req: express.Request): string | null => req.ip ?? null;
+const byUser = (req: express.Request): string | null =>
+  (req as Partial<AuthenticatedRequest>).userId ?? null;
+const limitBy = (
+  name: keyof typeof rateLimitPolicies.rateLimits,
+  key: (req: express.Request) => string | null,
+) => rateLimit(rateLimitStore, name, rateLimitPolicies.rateLimits[name], key);
+
+const loginEmailLockout = createLockout(
+  rateLimitStore,
+  "login_email",
+  rateLimitPolicies.lockouts.login_email,
+);
+const loginIpLockout = createLockout(
+  rateLimitStore,
+  "login_ip",
+  rateLimitPolicies.lockouts.login_ip,
+);
+const kidPinLockout = createLockout(
+  rateLimitStore,
+  "kid_pin",
+  rateLimitPolicies.lockouts.kid_pin,
+);
+
+const mailTransport = createMailTransport();
+
+const isValidEmail = (value: string): boolean =>
+  /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+
+const emailTokenTtlMinutes = {
+  verify_email: 24 * 60,
+  reset_password: 60,
+};
+
+type EmailTokenPurpose = keyof typeof emailTokenTtlMinutes;
+
+// Only the newest token per purpose is usable; older unused ones are retired.
+const createEmailToken = async (
+  db: Queryable,
+  userId: string,
+  purpose: EmailTokenPurpose,
+): Promise<string> => {
+  await db.query(
+    "UPDATE email_tokens SET used_at = now() WHERE user_id = $1 AND purpose = $2 AND used_at IS NULL",
+    [userId, purpose],
+  );
+  const token = randomBytes(32).toString("base64url");
+  await db.query(
+    `INSERT INTO email_tokens (user_id, purpose, token_hash, expires_at)
+     VALUES ($1, $2, $3, now() + make_interval(mins => $4))`,
+    [userId, purpose, hashToken(token), emailTokenTtlMinutes[purpose]],
+  );
+  return token;
+};
+
+const consumeEmailToken = async (
+  db: Queryable,
+  token: string,
+  purpose: EmailTokenPurpose,
+): Promise<string | null> => {
+  const result = await db.query(
+    `UPDATE email_tokens SET used_at = now()
+     WHERE token_hash = $1 AND purpose = $2 AND used_at IS NULL AND expires_at > now()
+     RETURNING user_id`,
+    [hashToken(token), purpose],
+  );
+  return result.rows[0]?.user_id ?? null;
+};
+
+const buildEmailLink = (pathname: string, token: string): string => {
+  if (!frontendUrl) {
+    return `token: ${token}`;
   }
+  const base = frontendUrl.replace(/\/$/, "");
+  return `${base}${pathname}?token=${encodeURIComponent(token)}`;
+};
+
+const sendVerificationEmail = async (userId: string, email: string): Promise<void> => {
+  const token = await createEmailToken(pool, userId, "verify_email");
+  await mailTransport.send({
+    to: email,
+    subject: "メールアドレスの確認",
+    text: `以下からメールアドレスを確認してください（24時間有効）。\n\n${buildEmailLink("/verify-email", token)}`,
+  });
 };
 
-app.post("/api/v1/auth/signup", async (req, res) => {
+app.post("/api/v1/auth/signup", limitBy("signup", byIp), async (req, res) => {
   const { email, password } = req.body ?? {};
 
   if (typeof email !== "string" || typeof password !== "string") {
@@ -183,6 +728,9 @@ app.post("/api/v1/auth/signup", async (req, res) => {
   if (!normalizedEmail || !password) {
     return res.status(400).json({ error: "email and password are required" });
   }
+  if (!isValidEmail(normalizedEmail)) {
+    return res.status(400).json({ error: "invalid email" });
+  }
 
   try {
     const passwordHash = await bcrypt.hash(password, 10);
@@ -190,8 +738,15 @@ app.post("/api/v1/auth/signup", async (req, res) => {
       "INSERT INTO users (email, password_hash, provider) VALUES ($1, $2, $3) RETURNING id, email, created_at, updated_at",
       [normalizedEmail, passwordHash, "password"],
     );
+    const user = result.rows[0];
 
-    return res.status(201).json({ user: result.rows[0] });
+    try {
+      await sendVerificationEmail(user.id, user.email);
+    } catch (error) {
+      console.error("send verification email failed", error);
+    }
+
+    return res.status(201).json({ user });
   } catch (error: unknown) {
     if (typeof error === "object" && error !== null && "code" in error) {
       const pgError = error as { code?: string };
@@ -205,7 +760,7 @@ app.post("/api/v1/auth/signup", async (req, res) => {
   }
 });
 
-app.post("/api/v1/auth/login", async (req, res) => {
+app.post("/api/v1/auth/login", limitBy("login", byIp), async (req, res) => {
   const { email, password } = req.body ?? {};
 
   if (typeof email !== "string" || typeof password !== "string") {
@@ -218,467 +773,4549 @@ app.post("/api/v1/auth/login", async (req, res) => {
     return res.status(400).json({ error: "email and password are required" });
   }
 
+  const emailKey = normalizedEmail.toLowerCase();
+  const ipKey = req.ip ?? "unknown";
+
   try {
+    // Checked before touching the database so locked-out guesses never reach bcrypt.
+    const retryAfter = Math.max(
+      await loginEmailLockout.retryAfter(emailKey),
+      await loginIpLockout.retryAfter(ipKey),
+    );
+    if (retryAfter > 0) {
+      return sendTooManyRequests(res, retryAfter, "too_many_attempts");
+    }
+
     const result = await pool.query(
       "SELECT id, email, password_hash FROM users WHERE email = $1",
       [normalizedEmail],
     );
     const user = result.rows[0];
 
-    if (!user) {
-      return res.status(401).json({ error: "invalid credentials" });
-    }
-
-    if (!user.password_hash) {
-      return res.status(401).json({ error: "invalid credentials" });
-    }
-
-    const isValid = await bcrypt.compare(password, user.password_hash);
+    const isValid =
+      user && user.password_hash
+        ? await bcrypt.compare(password, user.password_hash)
+        : false;
     if (!isValid) {
+      await loginEmailLockout.recordFailure(emailKey);
+      await loginIpLockout.recordFailure(ipKey);
       return res.status(401).json({ error: "invalid credentials" });
     }
 
-    await pool.query("UPDATE users SET provider = $1 WHERE id = $2", ["password", user.id]);
+    await loginEmailLockout.reset(emailKey);
 
     const jwtSecret = process.env.JWT_SECRET;
     if (!jwtSecret) {
       return res.status(500).json({ error: "JWT_SECRET is not set" });
     }
 
-    const token = jwt.sign({ user_id: user.id }, jwtSecret);
-    return res.json({ token });
+    const sessionId = await createSession(pool, user.id, req);
+    const tokens = await issueTokens(pool, user.id, sessionId);
+    return res.json(tokens);
   } catch (error) {
     console.error("login failed", error);
     return res.status(500).json({ error: "internal server error" });
   }
 });
 
-app.get("/api/v1/auth/oauth/:provider/start", (req, res) => {
-  const { provider } = req.params;
-  const redirectBaseUrl = getRedirectBaseUrl();
-
-  if (!redirectBaseUrl) {
-    return res.status(500).json({ error: "OAUTH_REDIRECT_BASE_URL is not set" });
-  }
+app.post("/api/v1/auth/refresh", async (req, res) => {
+  const { refresh_token } = req.body ?? {};
 
-  if (provider !== "google" && provider !== "github") {
-    return res.status(404).json({ error: "not_found" });
+  if (typeof refresh_token !== "string" || !refresh_token) {
+    return res.status(400).json({ error: "invalid_request" });
   }
 
-  const redirectUri = `${redirectBaseUrl}/api/v1/auth/oauth/${provider}/callback`;
-  let state: string;
+  const client = await pool.connect();
   try {
-    state = createOauthState(provider);
-  } catch (error) {
-    console.error("oauth state creation failed", error);
-    return res.status(500).json({ error: "internal server error" });
-  }
-  if (provider === "google") {
-    const clientId = process.env.GOOGLE_CLIENT_ID;
-    if (!clientId) {
-      return res.status(500).json({ error: "GOOGLE_CLIENT_ID is not set" });
+    await client.query("BEGIN");
+
+    const existing = await client.query(
+      `SELECT id, user_id, session_id, revoked_at, replaced_by, expires_at <= now() AS is_expired
+       FROM refresh_tokens
+       WHERE token_hash = $1
+       FOR UPDATE`,
+      [hashToken(refresh_token)],
+    );
+    const current = existing.rows[0];
+    if (!current) {
+      await client.query("ROLLBACK");
+      return res.status(401).json({ error: "invalid_refresh_token" });
     }
-    const url = new URL("https://accounts.google.com/o/oauth2/v2/auth");
-    url.searchParams.set("client_id", clientId);
-    url.searchParams.set("redirect_uri", redirectUri);
-    url.searchParams.set("response_type", "code");
-    url.searchParams.set("scope", "openid email profile");
-    url.searchParams.set("state", state);
-    return res.redirect(url.toString());
-  }
 
-  const clientId = process.env.GITHUB_CLIENT_ID;
-  if (!clientId) {
-    return res.status(500).json({ error: "GITHUB_CLIENT_ID is not set" });
+    if (current.revoked_at) {
+      if (current.replaced_by) {
+        // A rotated token came back: assume it was stolen and end the session.
+        await revokeSessions(client, current.user_id, [current.session_id]);
+        await client.query("COMMIT");
+        console.error(`refresh token reuse detected: session=${current.session_id}`);
+        return res.status(401).json({ error: "refresh_token_reused" });
+      }
+      await client.query("ROLLBACK");
+      return res.status(401).json({ error: "invalid_refresh_token" });
+    }
+
+    if (current.is_expired) {
+      await client.query("ROLLBACK");
+      return res.status(401).json({ error: "invalid_refresh_token" });
+    }
+
+    const tokens = await issueTokens(client, current.user_id, current.session_id);
+    await client.query(
+      `UPDATE refresh_tokens
+       SET revoked_at = now(),
+           replaced_by = (SELECT id FROM refresh_tokens WHERE token_hash = $1)
+       WHERE id = $2`,
+      [hashToken(tokens.refresh_token), current.id],
+    );
+    await client.query(
+      "UPDATE sessions SET last_seen_at = now(), ip = $1 WHERE id = $2",
+      [req.ip ?? null, current.session_id],
+    );
+
+    await client.query("COMMIT");
+    return res.json(tokens);
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("refresh failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  } finally {
+    client.release();
   }
-  const url = new URL("https://github.com/login/oauth/authorize");
-  url.searchParams.set("client_id", clientId);
-  url.searchParams.set("redirect_uri", redirectUri);
-  url.searchParams.set("scope", "user:email");
-  url.searchParams.set("state", state);
-  return res.redirect(url.toString());
 });
 
-app.get("/api/v1/auth/oauth/:provider/callback", async (req, res) => {
-  const { provider } = req.params;
-  const { code, state } = req.query;
+app.post("/api/v1/auth/logout", async (req, res) => {
+  const { refresh_token } = req.body ?? {};
 
-  if (provider !== "google" && provider !== "github") {
-    return res.status(404).json({ error: "not_found" });
-  }
-  if (typeof code !== "string" || !code) {
+  if (typeof refresh_token !== "string" || !refresh_token) {
     return res.status(400).json({ error: "invalid_request" });
   }
-  if (typeof state !== "string" || !state) {
-    return res.status(400).json({ error: "invalid_request" });
-  }
-  let stateError: string | null;
+
   try {
-    stateError = verifyOauthState(provider, state);
+    const result = await pool.query(
+      "SELECT user_id, session_id FROM refresh_tokens WHERE token_hash = $1",
+      [hashToken(refresh_token)],
+    );
+    const current = result.rows[0];
+    if (current) {
+      await revokeSessions(pool, current.user_id, [current.session_id]);
+    }
+    return res.status(204).send();
   } catch (error) {
-    console.error("invalid_oauth_state: verification_failed", error);
+    console.error("logout failed", error);
     return res.status(500).json({ error: "internal server error" });
   }
-  if (stateError) {
-    console.error(`invalid_oauth_state: ${stateError}`);
+});
+
+app.post("/api/v1/auth/verify-email", async (req, res) => {
+  const { token } = req.body ?? {};
+
+  if (typeof token !== "string" || !token) {
     return res.status(400).json({ error: "invalid_request" });
   }
 
+  try {
+    const userId = await consumeEmailToken(pool, token, "verify_email");
+    if (!userId) {
+      return res.status(400).json({ error: "invalid_token" });
+    }
+    await pool.query(
+      "UPDATE users SET email_verified_at = COALESCE(email_verified_at, now()), updated_at = now() WHERE id = $1",
+      [userId],
+    );
+    return res.status(204).send();
+  } catch (error) {
+    console.error("verify email failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+app.post("/api/v1/auth/password/forgot", limitBy("password", byIp), async (req, res) => {
+  const { email } = req.body ?? {};
+
+  if (typeof email !== "string" || !email.trim()) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const result = await pool.query("SELECT id, email FROM users WHERE email = $1", [
+      email.trim(),
+    ]);
+    const user = result.rows[0];
+    if (user) {
+      const token = await createEmailToken(pool, user.id, "reset_password");
+      // A failed send must not change the response either.
+      try {
+        await mailTransport.send({
+          to: user.email,
+          subject: "パスワードの再設定",
+          text: `以下からパスワードを再設定してください（1時間有効）。\n\n${buildEmailLink("/reset-password", token)}`,
+        });
+      } catch (error) {
+        console.error("password reset email failed", error);
+      }
+    }
+    // Same response whether or not the email exists, so accounts can't be probed.
+    return res.status(202).json({ status: "accepted" });
+  } catch (error) {
+    console.error("forgot password failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+app.post("/api/v1/auth/password/reset", limitBy("password", byIp), async (req, res) => {
+  const { token, password } = req.body ?? {};
+
+  if (typeof token !== "string" || !token) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (typeof password !== "string" || !password) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  const passwordHash = await bcrypt.hash(password, 10);
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const userId = await consumeEmailToken(client, token, "reset_password");
+    if (!userId) {
+      await client.query("ROLLBACK");
+      return res.status(400).json({ error: "invalid_token" });
+    }
+
+    // Identities linked while the address was unproven may belong to whoever
+    // signed up with it; the owner taking the account over drops them.
+    const userResult = await client.query(
+      "SELECT email_verified_at FROM users WHERE id = $1 FOR UPDATE",
+      [userId],
+    );
+    if (userResult.rows[0]?.email_verified_at === null) {
+      await client.query("DELETE FROM user_identities WHERE user_id = $1", [userId]);
+    }
+
+    // Receiving the reset mail proves ownership of the address as well.
+    await client.query(
+      `UPDATE users
+       SET password_hash = $1,
+           email_verified_at = COALESCE(email_verified_at, now()),
+           updated_at = now()
+       WHERE id = $2`,
+      [passwordHash, userId],
+    );
+
+    const sessions = await client.query(
+      "SELECT id FROM sessions WHERE user_id = $1 AND revoked_at IS NULL",
+      [userId],
+    );
+    await revokeSessions(
+      client,
+      userId,
+      sessions.rows.map((row) => row.id),
+    );
+
+    await client.query("COMMIT");
+    return res.status(204).send();
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("reset password failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  } finally {
+    client.release();
+  }
+});
+
+app.get("/api/v1/auth/oauth/:provider/start", async (req, res) => {
+  const { provider: providerName } = req.params;
   const redirectBaseUrl = getRedirectBaseUrl();
+
   if (!redirectBaseUrl) {
     return res.status(500).json({ error: "OAUTH_REDIRECT_BASE_URL is not set" });
   }
-  const redirectUri = `${redirectBaseUrl}/api/v1/auth/oauth/${provider}/callback`;
 
+  const provider = oauthProviders.get(providerName);
+  if (!provider) {
+    return res.status(404).json({ error: "not_found" });
+  }
+
+  const redirectUri = `${redirectBaseUrl}/api/v1/auth/oauth/${provider.name}/callback`;
   try {
-    let email: string | null = null;
-    let displayName: string | null = null;
-    let avatarUrl: string | null = null;
-    let providerUserId: string | null = null;
-    if (provider === "google") {
-      const clientId = process.env.GOOGLE_CLIENT_ID;
-      const clientSecret = process.env.GOOGLE_CLIENT_SECRET;
-      if (!clientId || !clientSecret) {
-        return res.status(500).json({ error: "Google OAuth env is not set" });
-      }
-      const tokenResponse = await fetchJson("https://oauth2.googleapis.com/token", {
-        method: "POST",
-        headers: { "Content-Type": "application/x-www-form-urlencoded" },
-        body: new URLSearchParams({
-          client_id: clientId,
-          client_secret: clientSecret,
-          code,
-          grant_type: "authorization_code",
-          redirect_uri: redirectUri,
-        }).toString(),
-      });
-      const accessToken = tokenResponse.access_token;
-      if (typeof accessToken !== "string") {
-        throw new Error("Google access_token is missing");
-      }
-      const userInfo = await fetchJson("https://openidconnect.googleapis.com/v1/userinfo", {
-        headers: { Authorization: `Bearer ${accessToken}` },
-      });
-      if (typeof userInfo.email === "string") {
-        email = userInfo.email.trim();
-      }
-      if (typeof userInfo.name === "string" && userInfo.name.trim()) {
-        displayName = userInfo.name.trim();
-      } else if (typeof userInfo.given_name === "string" && userInfo.given_name.trim()) {
-        displayName = userInfo.given_name.trim();
-      }
-      if (typeof userInfo.picture === "string" && userInfo.picture.trim()) {
-        avatarUrl = userInfo.picture.trim();
+    const state = createOauthState(provider.name);
+    return res.redirect(await buildAuthorizeUrl(provider, redirectUri, state));
+  } catch (error) {
+    console.error("oauth start failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+// Providers that use response_mode=form_post (e.g. Apple) call back with a POST.
+const handleOauthCallback: express.RequestHandler = async (req, res) => {
+  const providerName = String(req.params.provider);
+  const { code, state } = req.method === "POST" ? (req.body ?? {}) : req.query;
+
+  const provider = oauthProviders.get(providerName);
+  if (!provider) {
+    return res.status(404).json({ error: "not_found" });
+  }
+  if (typeof code !== "string" || !code) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (typeof state !== "string" || !state) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  let stateResult: ReturnType<typeof verifyOauthState>;
+  try {
+    stateResult = verifyOauthState(provider.name, state, readCookie(req, oauthLinkCookie));
+  } catch (error) {
+    console.error("invalid_oauth_state: verification_failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+  if (stateResult.error !== null) {
+    console.error(`invalid_oauth_state: ${stateResult.error}`);
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  const { linkUserId } = stateResult;
+
+  const redirectBaseUrl = getRedirectBaseUrl();
+  if (!redirectBaseUrl) {
+    return res.status(500).json({ error: "OAUTH_REDIRECT_BASE_URL is not set" });
+  }
+  if (linkUserId) {
+    // The nonce is single use.
+    res.clearCookie(oauthLinkCookie, oauthLinkCookieOptions(redirectBaseUrl));
+  }
+  const redirectUri = `${redirectBaseUrl}/api/v1/auth/oauth/${provider.name}/callback`;
+  const redirectToFrontend = (pathname: string, params: Record<string, string>) => {
+    const url = buildFrontendUrl(pathname, params);
+    if (!url) {
+      return res.status(500).json({ error: "FRONTEND_URL is not set" });
+    }
+    return res.redirect(url);
+  };
+
+  const client = await pool.connect();
+  try {
+    const { providerUserId, email, emailVerified, displayName, avatarUrl } =
+      await fetchOauthProfile(provider, code, redirectUri);
+
+    if (!providerUserId) {
+      throw new Error("OAuth provider user id is missing");
+    }
+
+    await client.query("BEGIN");
+
+    const identityResult = await client.query(
+      "SELECT id, user_id FROM user_identities WHERE provider = $1 AND provider_user_id = $2 FOR UPDATE",
+      [provider.name, providerUserId],
+    );
+    const identity = identityResult.rows[0];
+
+    if (linkUserId) {
+      if (identity && identity.user_id !== linkUserId) {
+        await client.query("ROLLBACK");
+        return redirectToFrontend("/settings/identities", {
+          error: "identity_in_use",
+          provider: provider.name,
+        });
       }
-      if (typeof userInfo.sub === "string" && userInfo.sub.trim()) {
-        providerUserId = userInfo.sub.trim();
+      if (!identity) {
+        await client.query(
+          `INSERT INTO user_identities (user_id, provider, provider_user_id, email)
+           VALUES ($1, $2, $3, $4)`,
+          [linkUserId, provider.name, providerUserId, email],
+        );
       }
+      await client.query("COMMIT");
+      return redirectToFrontend("/settings/identities", { linked: provider.name });
+    }
+
+    let userId: string;
+    if (identity) {
+      userId = identity.user_id;
+      await client.query(
+        "UPDATE user_identities SET email = COALESCE($1, email), last_login_at = now() WHERE id = $2",
+        [email, identity.id],
+      );
+      await client.query(
+        `UPDATE users
+         SET display_name = COALESCE($1, display_name),
+             avatar_url = COALESCE($2, avatar_url),
+             updated_at = now()
+         WHERE id = $3`,
+        [displayName, avatarUrl, userId],
+      );
     } else {
-      const clientId = process.env.GITHUB_CLIENT_ID;
-      const clientSecret = process.env.GITHUB_CLIENT_SECRET;
-      if (!clientId || !clientSecret) {
-        return res.status(500).json({ error: "GitHub OAuth env is not set" });
-      }
-      const tokenResponse = await fetchJson("https://github.com/login/oauth/access_token", {
-        method: "POST",
-        headers: {
-          Accept: "application/json",
-          "Content-Type": "application/x-www-form-urlencoded",
-        },
-        body: new URLSearchParams({
-          client_id: clientId,
-          client_secret: clientSecret,
-          code,
-          redirect_uri: redirectUri,
-        }).toString(),
-      });
-      const accessToken = tokenResponse.access_token;
-      if (typeof accessToken !== "string") {
-        throw new Error("GitHub access_token is missing");
-      }
-      const userInfo = await fetchJson("https://api.github.com/user", {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          Accept: "application/json",
-          "User-Agent": "ts-memo-api",
-        },
-      });
-      if (typeof userInfo.email === "string" && userInfo.email) {
-        email = userInfo.email.trim();
-      }
-      if (typeof userInfo.name === "string" && userInfo.name.trim()) {
-        displayName = userInfo.name.trim();
-      } else if (typeof userInfo.login === "string" && userInfo.login.trim()) {
-        displayName = userInfo.login.trim();
-      }
-      if (typeof userInfo.avatar_url === "string" && userInfo.avatar_url.trim()) {
-        avatarUrl = userInfo.avatar_url.trim();
+      if (!email) {
+        throw new Error("OAuth email is missing");
       }
-      if (userInfo.id !== undefined && userInfo.id !== null) {
-        providerUserId = String(userInfo.id);
+      // The new account claims users.email, so the provider has to vouch for it.
+      if (!emailVerified) {
+        await client.query("ROLLBACK");
+        return redirectToFrontend("/login/callback", {
+          error: "email_unverified",
+          provider: provider.name,
+        });
       }
-      if (!email) {
-        const emails = await fetchJson("https://api.github.com/user/emails", {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-            Accept: "application/json",
-            "User-Agent": "ts-memo-api",
-          },
+      const normalizedEmail = email.trim();
+      // An unknown provider subject never attaches to an existing account by
+      // email; the owner has to sign in and link it from /me/identities.
+      const existingUser = await client.query("SELECT 1 FROM users WHERE email = $1", [
+        normalizedEmail,
+      ]);
+      if (existingUser.rowCount !== 0) {
+        await client.query("ROLLBACK");
+        return redirectToFrontend("/login/callback", {
+          error: "account_exists",
+          provider: provider.name,
         });
-        if (Array.isArray(emails)) {
-          const primary = emails.find(
-            (entry) => entry && entry.primary === true && entry.verified === true,
-          );
-          const fallback = emails.find((entry) => entry && entry.verified === true);
-          const picked = primary ?? fallback;
-          if (picked && typeof picked.email === "string") {
-            email = picked.email.trim();
-          }
-        }
       }
+      const inserted = await client.query(
+        `INSERT INTO users (email, password_hash, display_name, avatar_url, provider, provider_user_id, email_verified_at)
+         VALUES ($1, $2, $3, $4, $5, $6, now())
+         RETURNING id`,
+        [normalizedEmail, null, displayName, avatarUrl, provider.name, providerUserId],
+      );
+      userId = inserted.rows[0].id;
+      await client.query(
+        `INSERT INTO user_identities (user_id, provider, provider_user_id, email, last_login_at)
+         VALUES ($1, $2, $3, $4, now())`,
+        [userId, provider.name, providerUserId, normalizedEmail],
+      );
     }
 
-    if (!email) {
-      throw new Error("OAuth email is missing");
-    }
-
-    const normalizedEmail = email.trim();
-    const upserted = await pool.query(
-      `INSERT INTO users (email, password_hash, display_name, avatar_url, provider, provider_user_id)
-       VALUES ($1, $2, $3, $4, $5, $6)
-       ON CONFLICT (email) DO UPDATE SET
-         email = EXCLUDED.email,
-         display_name = EXCLUDED.display_name,
-         avatar_url = EXCLUDED.avatar_url,
-         provider = EXCLUDED.provider,
-         provider_user_id = EXCLUDED.provider_user_id
-       RETURNING id`,
-      [normalizedEmail, null, displayName, avatarUrl, provider, providerUserId],
+    // Tokens never go into the redirect URL, where they would end up in
+    // history and Referer headers; the frontend trades the code for them.
+    const loginCode = randomBytes(32).toString("base64url");
+    await client.query(
+      `INSERT INTO login_codes (user_id, code_hash, expires_at)
+       VALUES ($1, $2, now() + make_interval(secs => $3))`,
+      [userId, hashToken(loginCode), loginCodeTtlSeconds],
     );
-    const userId = upserted.rows[0].id;
-
-    const jwtSecret = process.env.JWT_SECRET;
-    if (!jwtSecret) {
-      return res.status(500).json({ error: "JWT_SECRET is not set" });
-    }
-    const token = jwt.sign({ user_id: userId }, jwtSecret);
+    await client.query("COMMIT");
 
-    const redirectUrl = buildFrontendRedirect(token);
-    if (!redirectUrl) {
-      return res.status(500).json({ error: "FRONTEND_URL is not set" });
-    }
-    return res.redirect(redirectUrl);
+    return redirectToFrontend("/login/callback", { code: loginCode });
   } catch (error) {
+    await client.query("ROLLBACK");
     console.error("oauth callback failed", error);
     return res.status(500).json({ error: "internal server error" });
+  } finally {
+    client.release();
   }
-});
+};
 
-app.use("/api/v1/children", authMiddleware);
-app.use("/api/v1/tasks", authMiddleware);
+app.get("/api/v1/auth/oauth/:provider/callback", handleOauthCallback);
+app.post(
+  "/api/v1/auth/oauth/:provider/callback",
+  express.urlencoded({ extended: false }),
+  handleOauthCallback,
+);
 
-const isValidDate = (value: string): boolean => {
-  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
-    return false;
-  }
-  const parsed = new Date(`${value}T00:00:00Z`);
-  if (Number.isNaN(parsed.getTime())) {
-    return false;
-  }
-  return parsed.toISOString().slice(0, 10) === value;
-};
+// Trades the one-time code from an OAuth login redirect for tokens.
+app.post("/api/v1/auth/oauth/exchange", limitBy("login", byIp), async (req, res) => {
+  const { code } = req.body ?? {};
 
-const weekdayInfo = (value: string): { label: string; mask: number } => {
-  const date = new Date(`${value}T00:00:00Z`);
-  const day = date.getUTCDay(); // 0=Sun..6=Sat
-  switch (day) {
-    case 1:
-      return { label: "Mon", mask: 2 };
-    case 2:
-      return { label: "Tue", mask: 4 };
-    case 3:
-      return { label: "Wed", mask: 8 };
-    case 4:
-      return { label: "Thu", mask: 16 };
-    case 5:
-      return { label: "Fri", mask: 32 };
-    case 6:
-      return { label: "Sat", mask: 64 };
-    default:
-      return { label: "Sun", mask: 1 };
+  if (typeof code !== "string" || !code) {
+    return res.status(400).json({ error: "invalid_request" });
   }
-};
 
-const weekdayMaskSunStart = (value: string): number => {
-  const date = new Date(`${value}T00:00:00Z`);
-  const day = date.getUTCDay(); // 0=Sun..6=Sat
-  switch (day) {
-    case 1:
-      return 2;
-    case 2:
-      return 4;
-    case 3:
-      return 8;
-    case 4:
-      return 16;
-    case 5:
-      return 32;
-    case 6:
-      return 64;
-    default:
-      return 1;
-  }
-};
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
 
-const formatUtcDate = (date: Date): string => {
-  return date.toISOString().slice(0, 10);
-};
+    const result = await client.query(
+      `DELETE FROM login_codes WHERE code_hash = $1
+       RETURNING user_id, expires_at > now() AS is_valid`,
+      [hashToken(code)],
+    );
+    const loginCode = result.rows[0];
+    if (!loginCode || !loginCode.is_valid) {
+      await client.query("COMMIT");
+      return res.status(400).json({ error: "invalid_code" });
+    }
 
-app.get("/api/v1/children", async (req, res) => {
+    const sessionId = await createSession(client, loginCode.user_id, req);
+    const tokens = await issueTokens(client, loginCode.user_id, sessionId);
+    await client.query("COMMIT");
+    return res.json(tokens);
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("oauth code exchange failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  } finally {
+    client.release();
+  }
+});
+
+app.get("/api/v1/me/identities", async (req, res) => {
   const { userId } = req as AuthenticatedRequest;
 
   try {
+    const userResult = await pool.query(
+      "SELECT password_hash IS NOT NULL AS has_password FROM users WHERE id = $1",
+      [userId],
+    );
+    const user = userResult.rows[0];
+    if (!user) {
+      return res.status(401).json({ error: "unauthorized" });
+    }
+
     const result = await pool.query(
-      "SELECT id, name, grade FROM children WHERE user_id = $1 AND is_active = true ORDER BY created_at ASC",
+      `SELECT id, provider, email, created_at, last_login_at
+       FROM user_identities
+       WHERE user_id = $1
+       ORDER BY created_at ASC`,
       [userId],
     );
-    return res.json(result.rows);
+    return res.json({ has_password: user.has_password, identities: result.rows });
   } catch (error) {
-    console.error("list children failed", error);
+    console.error("list identities failed", error);
     return res.status(500).json({ error: "internal server error" });
   }
 });
 
-app.post("/api/v1/children", async (req, res) => {
+// Starts a link flow; the client sends the browser to the returned URL. The
+// request has to be sent with credentials so the browser keeps the nonce cookie.
+app.post("/api/v1/me/identities/:provider", async (req, res) => {
   const { userId } = req as AuthenticatedRequest;
-  const { name, grade } = req.body ?? {};
+  const { provider: providerName } = req.params;
+  const redirectBaseUrl = getRedirectBaseUrl();
 
-  if (typeof name !== "string" || !name.trim()) {
-    return res.status(400).json({ error: "invalid_request" });
+  if (!redirectBaseUrl) {
+    return res.status(500).json({ error: "OAUTH_REDIRECT_BASE_URL is not set" });
   }
-  if (grade !== undefined && typeof grade !== "string") {
+  const provider = oauthProviders.get(providerName);
+  if (!provider) {
+    return res.status(404).json({ error: "not_found" });
+  }
+
+  const redirectUri = `${redirectBaseUrl}/api/v1/auth/oauth/${provider.name}/callback`;
+  try {
+    const nonce = randomBytes(32).toString("base64url");
+    const state = createOauthState(provider.name, { userId, nonce });
+    const url = await buildAuthorizeUrl(provider, redirectUri, state);
+    res.cookie(oauthLinkCookie, nonce, {
+      ...oauthLinkCookieOptions(redirectBaseUrl),
+      maxAge: 10 * 60 * 1000,
+    });
+    return res.json({ url });
+  } catch (error) {
+    console.error("identity link start failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+app.delete("/api/v1/me/identities/:id", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { id } = req.params;
+
+  if (!isUuid(id)) {
     return res.status(400).json({ error: "invalid_request" });
   }
 
+  const client = await pool.connect();
   try {
-    const result = await pool.query(
-      "INSERT INTO children (user_id, name, grade) VALUES ($1, $2, $3) RETURNING id, name, grade, is_active",
-      [userId, name.trim(), grade ?? null],
+    await client.query("BEGIN");
+
+    const userResult = await client.query(
+      "SELECT password_hash IS NOT NULL AS has_password FROM users WHERE id = $1 FOR UPDATE",
+      [userId],
     );
-    return res.status(201).json(result.rows[0]);
-  } catch (error) {
-    console.error("create child failed", error);
+    const identitiesResult = await client.query(
+      "SELECT id FROM user_identities WHERE user_id = $1",
+      [userId],
+    );
+    const ids = identitiesResult.rows.map((row) => row.id);
+    if (!ids.includes(id)) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "not_found" });
+    }
+    if (!userResult.rows[0]?.has_password && ids.length === 1) {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: "last_login_method" });
+    }
+
+    await client.query("DELETE FROM user_identities WHERE id = $1 AND user_id = $2", [
+      id,
+      userId,
+    ]);
+
+    await client.query("COMMIT");
+    return res.status(204).send();
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("unlink identity failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  } finally {
+    client.release();
+  }
+});
+
+// Each section becomes a key of the JSON export and a CSV file in the zip.
+// $1 is the exporting user; children come from every household they belong to.
+const accountExportSections: { name: string; sql: string }[] = [
+  {
+    name: "user",
+    sql: `SELECT id, email, display_name, avatar_url, email_verified_at, created_at, updated_at
+          FROM users WHERE id = $1`,
+  },
+  {
+    name: "identities",
+    sql: `SELECT id, provider, provider_user_id, email, created_at, last_login_at
+          FROM user_identities WHERE user_id = $1
+          ORDER BY created_at ASC`,
+  },
+  {
+    name: "households",
+    sql: `SELECT h.id, h.name, m.role, m.created_at AS joined_at
+          FROM households h
+          JOIN household_members m ON m.household_id = h.id
+          WHERE m.user_id = $1
+          ORDER BY m.created_at ASC`,
+  },
+  {
+    name: "subjects",
+    sql: `SELECT sub.id, sub.household_id, sub.name, sub.color, sub.icon, sub.sort_order,
+                 sub.created_at, sub.updated_at
+          FROM subjects sub
+          JOIN household_members m ON m.household_id = sub.household_id
+          WHERE m.user_id = $1
+          ORDER BY sub.household_id, sub.sort_order ASC`,
+  },
+  {
+    name: "task_templates",
+    sql: `SELECT t.id, t.household_id, t.name, t.description, t.created_by, t.created_at,
+                 t.updated_at
+          FROM task_templates t
+          JOIN household_members m ON m.household_id = t.household_id
+          WHERE m.user_id = $1
+          ORDER BY t.household_id, t.created_at ASC`,
+  },
+  {
+    name: "task_template_items",
+    sql: `SELECT i.id, i.template_id, i.name, i.description, i.subject, i.default_minutes,
+                 i.days_mask, i.rrule, i.unit, i.target_quantity, i.sort_order
+          FROM task_template_items i
+          JOIN task_templates t ON t.id = i.template_id
+          JOIN household_members m ON m.household_id = t.household_id
+          WHERE m.user_id = $1
+          ORDER BY i.template_id, i.sort_order ASC`,
+  },
+  {
+    name: "children",
+    sql: `SELECT c.id, c.household_id, c.name, c.grade, c.is_active, c.streak_mode, c.created_at,
+                 c.updated_at
+          FROM children c
+          JOIN household_members m ON m.household_id = c.household_id
+          WHERE m.user_id = $1
+          ORDER BY c.created_at ASC`,
+  },
+  {
+    name: "child_badges",
+    sql: `SELECT b.id, b.child_id, b.badge, TO_CHAR(b.earned_on, 'YYYY-MM-DD') AS earned_on,
+                 b.created_at
+          FROM child_badges b
+          JOIN children c ON c.id = b.child_id
+          JOIN household_members m ON m.household_id = c.household_id
+          WHERE m.user_id = $1
+          ORDER BY b.child_id, b.earned_on ASC`,
+  },
+  {
+    name: "tasks",
+    sql: `SELECT t.id, t.child_id, t.name, t.description, t.subject, t.subject_id,
+                 t.default_minutes,
+                 t.days_mask, t.rrule, t.rdates,
+                 TO_CHAR(t.start_date, 'YYYY-MM-DD') AS start_date,
+                 TO_CHAR(t.end_date, 'YYYY-MM-DD') AS end_date, t.sort_order,
+                 t.unit, t.target_quantity, t.is_archived, t.version, t.created_at, t.updated_at
+          FROM tasks t
+          JOIN children c ON c.id = t.child_id
+          JOIN household_members m ON m.household_id = c.household_id
+          WHERE m.user_id = $1
+          ORDER BY t.child_id, t.sort_order ASC`,
+  },
+  {
+    name: "task_versions",
+    sql: `SELECT v.id, v.task_id, v.version, v.name, v.description, v.subject, v.subject_id,
+                 v.default_minutes, v.days_mask, v.rrule, v.rdates,
+                 TO_CHAR(v.start_date, 'YYYY-MM-DD') AS start_date,
+                 TO_CHAR(v.end_date, 'YYYY-MM-DD') AS end_date,
+                 v.unit, v.target_quantity, v.is_archived, v.changed_by, v.created_at
+          FROM task_versions v
+          JOIN tasks t ON t.id = v.task_id
+          JOIN children c ON c.id = t.child_id
+          JOIN household_members m ON m.household_id = c.household_id
+          WHERE m.user_id = $1
+          ORDER BY v.task_id, v.version ASC`,
+  },
+  {
+    name: "task_exceptions",
+    sql: `SELECT e.id, e.task_id, TO_CHAR(e.date, 'YYYY-MM-DD') AS date, e.action,
+                 TO_CHAR(e.moved_to, 'YYYY-MM-DD') AS moved_to, e.minutes, e.created_by,
+                 e.created_at, e.updated_at
+          FROM task_exceptions e
+          JOIN tasks t ON t.id = e.task_id
+          JOIN children c ON c.id = t.child_id
+          JOIN household_members m ON m.household_id = c.household_id
+          WHERE m.user_id = $1
+          ORDER BY e.task_id, e.date ASC`,
+  },
+  {
+    name: "off_periods",
+    sql: `SELECT p.id, p.household_id, p.child_id,
+                 TO_CHAR(p.start_date, 'YYYY-MM-DD') AS start_date,
+                 TO_CHAR(p.end_date, 'YYYY-MM-DD') AS end_date,
+                 p.reason, p.source, p.created_by, p.created_at
+          FROM off_periods p
+          JOIN household_members m ON m.household_id = p.household_id
+          WHERE m.user_id = $1
+          ORDER BY p.household_id, p.start_date ASC`,
+  },
+  {
+    name: "study_logs",
+    sql: `SELECT l.id, l.child_id, l.task_id, l.task_version,
+                 TO_CHAR(l.date, 'YYYY-MM-DD') AS date,
+                 l.minutes, l.quantity, l.points, l.note, l.difficulty, l.mood, l.recorded_by,
+                 l.created_at, l.updated_at
+          FROM study_logs l
+          JOIN children c ON c.id = l.child_id
+          JOIN household_members m ON m.household_id = c.household_id
+          WHERE m.user_id = $1
+          ORDER BY l.child_id, l.date ASC`,
+  },
+  {
+    name: "study_timers",
+    sql: `SELECT t.id, t.child_id, t.task_id, TO_CHAR(t.date, 'YYYY-MM-DD') AS date, t.status,
+                 t.elapsed_seconds, t.running_since, t.started_by, t.started_at, t.stopped_at,
+                 t.updated_at
+          FROM study_timers t
+          JOIN children c ON c.id = t.child_id
+          JOIN household_members m ON m.household_id = c.household_id
+          WHERE m.user_id = $1
+          ORDER BY t.child_id, t.started_at ASC`,
+  },
+  {
+    name: "goals",
+    sql: `SELECT g.id, g.child_id, g.subject_id, g.period, g.metric, g.target, g.created_by,
+                 g.created_at, g.updated_at
+          FROM goals g
+          JOIN children c ON c.id = g.child_id
+          JOIN household_members m ON m.household_id = c.household_id
+          WHERE m.user_id = $1
+          ORDER BY g.child_id, g.created_at ASC`,
+  },
+  {
+    name: "point_rules",
+    sql: `SELECT r.id, r.household_id, r.subject_id, r.task_id, r.mode, r.points, r.created_by,
+                 r.created_at, r.updated_at
+          FROM point_rules r
+          JOIN household_members m ON m.household_id = r.household_id
+          WHERE m.user_id = $1
+          ORDER BY r.household_id, r.created_at ASC`,
+  },
+  {
+    name: "rewards",
+    sql: `SELECT r.id, r.household_id, r.name, r.cost, r.is_active, r.created_by, r.created_at,
+                 r.updated_at
+          FROM rewards r
+          JOIN household_members m ON m.household_id = r.household_id
+          WHERE m.user_id = $1
+          ORDER BY r.household_id, r.created_at ASC`,
+  },
+  {
+    name: "reward_redemptions",
+    sql: `SELECT rr.id, rr.child_id, rr.reward_id, rr.cost, rr.status, rr.requested_by,
+                 rr.decided_by, rr.decided_at, rr.created_at
+          FROM reward_redemptions rr
+          JOIN children c ON c.id = rr.child_id
+          JOIN household_members m ON m.household_id = c.household_id
+          WHERE m.user_id = $1
+          ORDER BY rr.child_id, rr.created_at ASC`,
+  },
+  {
+    name: "point_ledger",
+    sql: `SELECT l.id, l.child_id, l.points, l.reason, TO_CHAR(l.date, 'YYYY-MM-DD') AS date,
+                 l.task_id, l.redemption_id, l.created_by, l.created_at
+          FROM point_ledger l
+          JOIN children c ON c.id = l.child_id
+          JOIN household_members m ON m.household_id = c.household_id
+          WHERE m.user_id = $1
+          ORDER BY l.child_id, l.created_at ASC`,
+  },
+];
+
+// GET /me/export returns JSON; ?format=zip returns the same sections as CSV files.
+app.get("/api/v1/me/export", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const format = req.query.format ?? "json";
+
+  if (format !== "json" && format !== "zip") {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  const client = await pool.connect();
+  try {
+    // One snapshot so the sections agree with each other.
+    await client.query("BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY");
+    const sections: { name: string; columns: string[]; rows: Record<string, unknown>[] }[] =
+      [];
+    for (const section of accountExportSections) {
+      const result = await client.query(section.sql, [userId]);
+      sections.push({
+        name: section.name,
+        columns: result.fields.map((field) => field.name),
+        rows: result.rows,
+      });
+    }
+    await client.query("COMMIT");
+
+    const exportedAt = new Date();
+    const filename = `learning-export-${exportedAt.toISOString().slice(0, 10)}`;
+    if (format === "zip") {
+      const archive = createZip(
+        sections.map((section) => ({
+          name: `${section.name}.csv`,
+          data: Buffer.from(toCsv(section.columns, section.rows), "utf8"),
+        })),
+        exportedAt,
+      );
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}.zip"`);
+      return res.send(archive);
+    }
+
+    const body: Record<string, unknown> = { exported_at: exportedAt.toISOString() };
+    for (const section of sections) {
+      body[section.name] = section.name === "user" ? (section.rows[0] ?? null) : section.rows;
+    }
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}.json"`);
+    return res.json(body);
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("export account failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  } finally {
+    client.release();
+  }
+});
+
+// OAuth-only accounts have no password to re-enter, so they must have signed in
+// within this many minutes instead.
+const reauthWindowMinutes = 10;
+
+// Removes every row that references the user. Children in households the user
+// shares are handed to a remaining owner; households where the user is the only
+// member are deleted with their children. Any new table referencing users must
+// be handled here, since none of the foreign keys cascade.
+const purgeUser = async (db: Queryable, userId: string): Promise<{ error: string } | null> => {
+  // Hold the membership rows so nobody else leaves a shared household mid-purge.
+  await db.query(
+    `SELECT 1 FROM household_members
+     WHERE household_id IN (SELECT household_id FROM household_members WHERE user_id = $1)
+     FOR UPDATE`,
+    [userId],
+  );
+  const memberships = await db.query(
+    `SELECT m.household_id, m.role,
+            COUNT(*) FILTER (WHERE o.user_id <> $1) AS other_members,
+            COUNT(*) FILTER (WHERE o.user_id <> $1 AND o.role = 'owner') AS other_owners
+     FROM household_members m
+     JOIN household_members o ON o.household_id = m.household_id
+     WHERE m.user_id = $1
+     GROUP BY m.household_id, m.role`,
+    [userId],
+  );
+  const soloHouseholdIds: string[] = [];
+  for (const row of memberships.rows) {
+    if (Number(row.other_members) === 0) {
+      soloHouseholdIds.push(row.household_id);
+    } else if (row.role === "owner" && Number(row.other_owners) === 0) {
+      return { error: "last_owner" };
+    }
+  }
+
+  if (soloHouseholdIds.length > 0) {
+    const childIds = `SELECT id FROM children WHERE household_id = ANY($1::uuid[])`;
+    await db.query(`DELETE FROM study_logs WHERE child_id IN (${childIds})`, [soloHouseholdIds]);
+    await db.query(`DELETE FROM point_ledger WHERE child_id IN (${childIds})`, [soloHouseholdIds]);
+    await db.query(`DELETE FROM study_timers WHERE child_id IN (${childIds})`, [soloHouseholdIds]);
+    await db.query(`DELETE FROM reward_redemptions WHERE child_id IN (${childIds})`, [
+      soloHouseholdIds,
+    ]);
+    await db.query("DELETE FROM rewards WHERE household_id = ANY($1::uuid[])", [
+      soloHouseholdIds,
+    ]);
+    await db.query("DELETE FROM point_rules WHERE household_id = ANY($1::uuid[])", [
+      soloHouseholdIds,
+    ]);
+    await db.query(
+      `DELETE FROM task_exceptions WHERE task_id IN (SELECT id FROM tasks WHERE child_id IN (${childIds}))`,
+      [soloHouseholdIds],
+    );
+    await db.query(
+      `DELETE FROM task_versions WHERE task_id IN (SELECT id FROM tasks WHERE child_id IN (${childIds}))`,
+      [soloHouseholdIds],
+    );
+    await db.query(`DELETE FROM tasks WHERE child_id IN (${childIds})`, [soloHouseholdIds]);
+    await db.query(`DELETE FROM child_badges WHERE child_id IN (${childIds})`, [soloHouseholdIds]);
+    await db.query(`DELETE FROM goals WHERE child_id IN (${childIds})`, [soloHouseholdIds]);
+    await db.query("DELETE FROM off_periods WHERE household_id = ANY($1::uuid[])", [
+      soloHouseholdIds,
+    ]);
+    await db.query("DELETE FROM children WHERE household_id = ANY($1::uuid[])", [
+      soloHouseholdIds,
+    ]);
+    await db.query("DELETE FROM subjects WHERE household_id = ANY($1::uuid[])", [
+      soloHouseholdIds,
+    ]);
+    await db.query(
+      `DELETE FROM task_template_items
+       WHERE template_id IN (SELECT id FROM task_templates WHERE household_id = ANY($1::uuid[]))`,
+      [soloHouseholdIds],
+    );
+    await db.query("DELETE FROM task_templates WHERE household_id = ANY($1::uuid[])", [
+      soloHouseholdIds,
+    ]);
+    await db.query("DELETE FROM household_invites WHERE household_id = ANY($1::uuid[])", [
+      soloHouseholdIds,
+    ]);
+    await db.query("DELETE FROM household_members WHERE household_id = ANY($1::uuid[])", [
+      soloHouseholdIds,
+    ]);
+    await db.query("DELETE FROM households WHERE id = ANY($1::uuid[])", [soloHouseholdIds]);
+  }
+
+  await db.query("DELETE FROM household_members WHERE user_id = $1", [userId]);
+
+  const successorsSql = `
+    SELECT DISTINCT ON (household_id) household_id, user_id
+    FROM household_members
+    WHERE role = 'owner'
+    ORDER BY household_id, created_at ASC`;
+
+  // Shared children move to the longest-standing remaining owner of their household.
+  await db.query(
+    `UPDATE children c SET user_id = s.user_id, updated_at = now()
+     FROM (${successorsSql}) s
+     WHERE s.household_id = c.household_id AND c.user_id = $1`,
+    [userId],
+  );
+  await db.query(
+    `UPDATE tasks t SET user_id = c.user_id
+     FROM children c WHERE c.id = t.child_id AND t.user_id = $1`,
+    [userId],
+  );
+  await db.query(
+    `UPDATE study_logs l SET user_id = c.user_id
+     FROM children c WHERE c.id = l.child_id AND l.user_id = $1`,
+    [userId],
+  );
+  await db.query(
+    `UPDATE study_logs l SET recorded_by = c.user_id
+     FROM children c WHERE c.id = l.child_id AND l.recorded_by = $1`,
+    [userId],
+  );
+  await db.query(
+    `UPDATE task_exceptions e SET created_by = c.user_id
+     FROM tasks t JOIN children c ON c.id = t.child_id
+     WHERE t.id = e.task_id AND e.created_by = $1`,
+    [userId],
+  );
+  await db.query("UPDATE task_versions SET changed_by = NULL WHERE changed_by = $1", [userId]);
+  await db.query("UPDATE task_templates SET created_by = NULL WHERE created_by = $1", [userId]);
+  await db.query("UPDATE point_rules SET created_by = NULL WHERE created_by = $1", [userId]);
+  await db.query("UPDATE goals SET created_by = NULL WHERE created_by = $1", [userId]);
+  await db.query("UPDATE study_timers SET started_by = NULL WHERE started_by = $1", [userId]);
+  await db.query("UPDATE rewards SET created_by = NULL WHERE created_by = $1", [userId]);
+  await db.query("UPDATE reward_redemptions SET requested_by = NULL WHERE requested_by = $1", [
+    userId,
+  ]);
+  await db.query("UPDATE reward_redemptions SET decided_by = NULL WHERE decided_by = $1", [
+    userId,
+  ]);
+  await db.query("UPDATE point_ledger SET created_by = NULL WHERE created_by = $1", [userId]);
+  await db.query(
+    `UPDATE off_periods p SET created_by = s.user_id
+     FROM (${successorsSql}) s
+     WHERE s.household_id = p.household_id AND p.created_by = $1`,
+    [userId],
+  );
+  // Kid tokens are issued on behalf of whoever set the PIN.
+  await db.query(
+    `UPDATE children
+     SET pin_hash = NULL, pin_set_by = NULL, kid_token_version = kid_token_version + 1
+     WHERE pin_set_by = $1`,
+    [userId],
+  );
+
+  await db.query("DELETE FROM household_invites WHERE invited_by = $1", [userId]);
+  await db.query("UPDATE household_invites SET accepted_by = NULL WHERE accepted_by = $1", [
+    userId,
+  ]);
+  await db.query("DELETE FROM api_tokens WHERE user_id = $1", [userId]);
+  await db.query("DELETE FROM email_tokens WHERE user_id = $1", [userId]);
+  await db.query("DELETE FROM login_codes WHERE user_id = $1", [userId]);
+  await db.query("DELETE FROM user_identities WHERE user_id = $1", [userId]);
+  await db.query("DELETE FROM refresh_tokens WHERE user_id = $1", [userId]);
+  await db.query("DELETE FROM sessions WHERE user_id = $1", [userId]);
+  await db.query("DELETE FROM users WHERE id = $1", [userId]);
+  return null;
+};
+
+app.delete("/api/v1/me", limitBy("password", byIp), async (req, res) => {
+  const { userId, sessionId } = req as AuthenticatedRequest;
+  const { password } = req.body ?? {};
+
+  if (password !== undefined && typeof password !== "string") {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const userResult = await client.query(
+      "SELECT password_hash FROM users WHERE id = $1 FOR UPDATE",
+      [userId],
+    );
+    const user = userResult.rows[0];
+    if (!user) {
+      await client.query("ROLLBACK");
+      return res.status(401).json({ error: "unauthorized" });
+    }
+
+    if (user.password_hash) {
+      const isValid = password ? await bcrypt.compare(password, user.password_hash) : false;
+      if (!isValid) {
+        await client.query("ROLLBACK");
+        return res.status(401).json({ error: "invalid_password" });
+      }
+    } else {
+      const sessionResult = await client.query(
+        `SELECT 1 FROM sessions
+         WHERE id = $1 AND created_at > now() - make_interval(mins => $2)`,
+        [sessionId, reauthWindowMinutes],
+      );
+      if (sessionResult.rowCount === 0) {
+        await client.query("ROLLBACK");
+        return res.status(403).json({ error: "reauthentication_required" });
+      }
+    }
+
+    const purgeError = await purgeUser(client, userId);
+    if (purgeError) {
+      await client.query("ROLLBACK");
+      return res.status(409).json(purgeError);
+    }
+
+    await client.query("COMMIT");
+    return res.status(204).send();
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("delete account failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  } finally {
+    client.release();
+  }
+});
+
+// Kid sessions are opened on a shared device with the child's PIN, before any
+// parent token is present, so this route sits ahead of the children auth guard.
+app.post("/api/v1/children/:childId/kid-session", async (req, res) => {
+  const { childId } = req.params;
+  const { pin } = req.body ?? {};
+
+  if (!isUuid(childId) || typeof pin !== "string" || !pin) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!jwtSecret) {
+    return res.status(500).json({ error: "JWT_SECRET is not set" });
+  }
+
+  try {
+    const retryAfter = await kidPinLockout.retryAfter(childId);
+    if (retryAfter > 0) {
+      return sendTooManyRequests(res, retryAfter, "too_many_attempts");
+    }
+
+    // A PIN set by someone who has since left the household no longer works.
+    const result = await pool.query(
+      `SELECT c.id, c.name, c.pin_set_by, c.kid_token_version,
+              CASE WHEN m.user_id IS NOT NULL THEN c.pin_hash END AS pin_hash
+       FROM children c
+       LEFT JOIN household_members m
+         ON m.household_id = c.household_id AND m.user_id = c.pin_set_by
+       WHERE c.id = $1 AND c.is_active = true`,
+      [childId],
+    );
+    const child = result.rows[0];
+
+    const isValid =
+      child && child.pin_hash ? await bcrypt.compare(pin, child.pin_hash) : false;
+    if (!isValid) {
+      await kidPinLockout.recordFailure(childId);
+      return res.status(401).json({ error: "invalid_pin" });
+    }
+
+    await kidPinLockout.reset(childId);
+
+    const token = jwt.sign(
+      {
+        user_id: child.pin_set_by,
+        typ: "kid",
+        child_id: child.id,
+        kv: child.kid_token_version,
+      },
+      jwtSecret,
+      { expiresIn: kidTokenTtlSeconds },
+    );
+    return res.json({
+      token,
+      expires_in: kidTokenTtlSeconds,
+      child: { id: child.id, name: child.name },
+    });
+  } catch (error) {
+    console.error("create kid session failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+app.use("/api/v1/children", authMiddleware);
+app.use("/api/v1/tasks", authMiddleware);
+app.use("/api/v1/starter-packs", authMiddleware);
+app.use("/api/v1/dashboard", authMiddleware);
+app.use("/api/v1/households", authMiddleware, requireFullScope);
+
+const isValidDate = (value: string): boolean => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  const parsed = new Date(`${value}T00:00:00Z`);
+  if (Number.isNaN(parsed.getTime())) {
+    return false;
+  }
+  return parsed.toISOString().slice(0, 10) === value;
+};
+
+const weekdayInfo = (value: string): { label: string; mask: number } => {
+  const date = new Date(`${value}T00:00:00Z`);
+  const day = date.getUTCDay(); // 0=Sun..6=Sat
+  switch (day) {
+    case 1:
+      return { label: "Mon", mask: 2 };
+    case 2:
+      return { label: "Tue", mask: 4 };
+    case 3:
+      return { label: "Wed", mask: 8 };
+    case 4:
+      return { label: "Thu", mask: 16 };
+    case 5:
+      return { label: "Fri", mask: 32 };
+    case 6:
+      return { label: "Sat", mask: 64 };
+    default:
+      return { label: "Sun", mask: 1 };
+  }
+};
+
+const formatUtcDate = (date: Date): string => {
+  return date.toISOString().slice(0, 10);
+};
+
+// Checks the subject fields of a task payload: subject_id, or the older
+// free-text subject name. required is false for PATCH.
+const isValidTaskSubjectInput = (
+  subjectId: unknown,
+  subjectName: unknown,
+  required: boolean,
+): boolean => {
+  if (subjectId !== undefined) {
+    return typeof subjectId === "string" && isUuid(subjectId);
+  }
+  if (subjectName !== undefined) {
+    return typeof subjectName === "string" && subjectName.trim().length > 0;
+  }
+  return !required;
+};
+
+// Finds the household subject a task should point at. A free-text name is
+// matched case-insensitively and created when the household doesn't have it,
+// so older clients that only send subject keep working. Returns null for a
+// subject_id outside the household.
+const resolveTaskSubject = async (
+  db: Queryable,
+  householdId: string,
+  subjectId: string | undefined,
+  subjectName: string | undefined,
+): Promise<{ id: string; name: string } | null> => {
+  if (subjectId !== undefined) {
+    const result = await db.query(
+      "SELECT id, name FROM subjects WHERE id = $1 AND household_id = $2",
+      [subjectId, householdId],
+    );
+    return result.rows[0] ?? null;
+  }
+  const result = await db.query(
+    `INSERT INTO subjects (household_id, name, sort_order)
+     SELECT $1, $2, COALESCE(MAX(sort_order) + 1, 0) FROM subjects WHERE household_id = $1
+     ON CONFLICT (household_id, lower(name)) DO UPDATE SET name = subjects.name
+     RETURNING id, name`,
+    [householdId, (subjectName ?? "").trim()],
+  );
+  return result.rows[0];
+};
+
+// Task writes run as `WITH written AS (INSERT/UPDATE ... RETURNING *)` followed
+// by this CTE, so the version snapshot commits in the same statement as the
+// change. changedByParam is the placeholder number holding the acting user.
+const taskVersionSnapshotCte = (changedByParam: number) => `
+  snapshot AS (
+    INSERT INTO task_versions (task_id, version, name, description, subject_id, subject,
+                               default_minutes, days_mask, rrule, rdates, start_date,
+                               end_date, is_archived, unit, target_quantity, changed_by)
+    SELECT id, version, name, description, subject_id, subject,
+           default_minutes, days_mask, rrule, rdates, start_date,
+           end_date, is_archived, unit, target_quantity, $${changedByParam}
+    FROM written
+  )`;
+
+const writtenTaskColumns = `id,
+       name,
+       description,
+       subject,
+       subject_id,
+       default_minutes,
+       days_mask,
+       rrule,
+       rdates,
+       is_archived,
+       unit,
+       target_quantity,
+       version,
+       TO_CHAR(start_date, 'YYYY-MM-DD') AS start_date,
+       TO_CHAR(end_date, 'YYYY-MM-DD') AS end_date`;
+
+type NewTask = {
+  name: string;
+  description: string | null;
+  subject: string;
+  // Kept when the source is in the same household; otherwise the subject is
+  // looked up (or created) by name.
+  subject_id?: string;
+  default_minutes: number;
+  days_mask: number | null;
+  rrule: string | null;
+  rdates: string[];
+  start_date: string | null;
+  end_date: string | null;
+  unit: string | null;
+  target_quantity: number | null;
+  sort_order: number;
+};
+
+// Adds tasks to a child in one go (templates, cloning). They keep their
+// relative sort_order and land after the child's existing tasks. Call inside
+// a transaction.
+const appendTasks = async (
+  db: Queryable,
+  childId: string,
+  access: { ownerUserId: string; householdId: string },
+  tasks: NewTask[],
+  changedBy: string,
+): Promise<Record<string, unknown>[]> => {
+  const existing = await db.query(
+    "SELECT MAX(sort_order) AS max FROM tasks WHERE child_id = $1",
+    [childId],
+  );
+  const existingMax: number | null = existing.rows[0]?.max ?? null;
+  const shift =
+    existingMax === null
+      ? 0
+      : existingMax + 1 - Math.min(...tasks.map((task) => task.sort_order));
+
+  const created: Record<string, unknown>[] = [];
+  for (const task of tasks) {
+    const subject = await resolveTaskSubject(
+      db,
+      access.householdId,
+      task.subject_id,
+      task.subject,
+    );
+    if (!subject) {
+      throw new Error(`subject ${task.subject_id} is not in household ${access.householdId}`);
+    }
+    const result = await db.query(
+      `WITH written AS (
+         INSERT INTO tasks (user_id, child_id, name, description, subject, subject_id,
+                            default_minutes, days_mask, rrule, rdates, start_date, end_date,
+                            unit, target_quantity, sort_order)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+         RETURNING *
+       ), ${taskVersionSnapshotCte(16)}
+       SELECT ${writtenTaskColumns}, sort_order FROM written`,
+      [
+        access.ownerUserId,
+        childId,
+        task.name,
+        task.description,
+        subject.name,
+        subject.id,
+        task.default_minutes,
+        task.days_mask,
+        task.rrule,
+        task.rdates,
+        task.start_date,
+        task.end_date,
+        task.unit,
+        task.target_quantity,
+        task.sort_order + shift,
+        changedBy,
+      ],
+    );
+    created.push(result.rows[0]);
+  }
+  return created;
+};
+
+type TaskScheduleFields = {
+  days_mask?: number | null;
+  rrule?: string | null;
+  rdates?: string[];
+};
+
+// Validates whichever schedule fields the payload carries. Fields that are
+// absent stay undefined so PATCH can merge them with the stored task; how the
+// fields combine is checked afterwards with isValidSchedule.
+const parseTaskScheduleFields = (body: Record<string, unknown>): TaskScheduleFields | null => {
+  const fields: TaskScheduleFields = {};
+  const { days_mask, rrule, rdates } = body;
+
+  if (days_mask !== undefined) {
+    if (days_mask === null) {
+      fields.days_mask = null;
+    } else if (
+      typeof days_mask === "number" &&
+      Number.isInteger(days_mask) &&
+      days_mask >= 1 &&
+      days_mask <= 127
+    ) {
+      fields.days_mask = days_mask;
+    } else {
+      return null;
+    }
+  }
+
+  if (rrule !== undefined) {
+    if (rrule === null) {
+      fields.rrule = null;
+    } else {
+      const normalized = typeof rrule === "string" ? normalizeRrule(rrule) : null;
+      if (normalized === null) {
+        return null;
+      }
+      fields.rrule = normalized;
+    }
+  }
+
+  if (rdates !== undefined) {
+    if (
+      !Array.isArray(rdates) ||
+      rdates.length > 100 ||
+      !rdates.every((value) => typeof value === "string" && isValidDate(value))
+    ) {
+      return null;
+    }
+    fields.rdates = [...new Set<string>(rdates)].sort();
+  }
+
+  return fields;
+};
+
+type TaskQuantityFields = {
+  unit?: string | null;
+  target_quantity?: number | null;
+};
+
+// Like parseTaskScheduleFields: absent fields stay undefined. unit and
+// target_quantity go together; isValidTaskQuantity checks the combination.
+const parseTaskQuantityFields = (body: Record<string, unknown>): TaskQuantityFields | null => {
+  const fields: TaskQuantityFields = {};
+  const { unit, target_quantity } = body;
+
+  if (unit !== undefined) {
+    if (unit === null) {
+      fields.unit = null;
+    } else if (typeof unit === "string" && unit.trim() && unit.trim().length <= 20) {
+      fields.unit = unit.trim();
+    } else {
+      return null;
+    }
+  }
+
+  if (target_quantity !== undefined) {
+    if (target_quantity === null) {
+      fields.target_quantity = null;
+    } else if (
+      typeof target_quantity === "number" &&
+      Number.isInteger(target_quantity) &&
+      target_quantity >= 1
+    ) {
+      fields.target_quantity = target_quantity;
+    } else {
+      return null;
+    }
+  }
+
+  return fields;
+};
+
+const isValidTaskQuantity = (unit: string | null, targetQuantity: number | null): boolean =>
+  (unit === null) === (targetQuantity === null);
+
+// Achieved share of the target in percent, or null when there is nothing to compare.
+const quantityProgress = (
+  quantity: number | null | undefined,
+  targetQuantity: number | null | undefined,
+): number | null =>
+  quantity === null || quantity === undefined || !targetQuantity
+    ? null
+    : Math.round((quantity / targetQuantity) * 100);
+
+const logMoods = ["great", "good", "okay", "tired", "bad"];
+
+const maxLogNoteLength = 1000;
+
+// Blank notes are stored as null.
+const normalizeLogNote = (value: unknown): string | null =>
+  typeof value === "string" && value.trim() ? value.trim() : null;
+
+type PointMode = "task" | "minute";
+
+const isPointMode = (value: unknown): value is PointMode =>
+  value === "task" || value === "minute";
+
+// Points a log is worth under its task's rule (or its subject's); 0 without one.
+const logPoints = (mode: PointMode | null, points: number | null, minutes: number): number => {
+  if (mode === null || points === null) {
+    return 0;
+  }
+  return mode === "task" ? points : points * minutes;
+};
+
+// Appends "study" ledger entries so that, for each task, the entries for the
+// child's day add up to the points stored on that day's log (0 once the log is
+// gone). The caller must hold the child's row lock.
+const syncStudyPoints = async (
+  db: Queryable,
+  childId: string,
+  date: string,
+  userId: string,
+) => {
+  await db.query(
+    `INSERT INTO point_ledger (child_id, points, reason, date, task_id, created_by)
+     SELECT $1, COALESCE(s.points, 0) - COALESCE(l.points, 0), 'study', $2,
+            COALESCE(s.task_id, l.task_id), $3
+     FROM (SELECT task_id, points FROM study_logs WHERE child_id = $1 AND date = $2) s
+     FULL JOIN (
+       SELECT task_id, SUM(points) AS points
+       FROM point_ledger
+       WHERE child_id = $1 AND date = $2 AND reason = 'study'
+       GROUP BY task_id
+     ) l ON l.task_id = s.task_id
+     WHERE COALESCE(s.points, 0) <> COALESCE(l.points, 0)`,
+    [childId, date, userId],
+  );
+};
+
+const loadPointBalance = async (db: Queryable, childId: string): Promise<number> => {
+  const result = await db.query(
+    "SELECT COALESCE(SUM(points), 0) AS balance FROM point_ledger WHERE child_id = $1",
+    [childId],
+  );
+  return Number(result.rows[0]?.balance ?? 0);
+};
+
+type OffDay = {
+  reason: string;
+  // null when the off period covers the whole household.
+  child_id: string | null;
+};
+
+// Off periods that cover each child between from and to, keyed by child id
+// and then by date. A period set for the child wins over a household-wide one
+// on the same day.
+const loadChildrenOffDays = async (
+  db: Queryable,
+  children: Array<{ id: string; household_id: string }>,
+  from: string,
+  to: string,
+): Promise<Map<string, Map<string, OffDay>>> => {
+  const result = await db.query(
+    `SELECT c.id AS for_child_id, TO_CHAR(d, 'YYYY-MM-DD') AS date, p.reason, p.child_id
+     FROM unnest($1::uuid[], $2::uuid[]) AS c(id, household_id)
+     JOIN off_periods p
+       ON p.household_id = c.household_id AND (p.child_id IS NULL OR p.child_id = c.id)
+     CROSS JOIN LATERAL generate_series(
+       GREATEST(p.start_date, $3::date),
+       LEAST(p.end_date, $4::date),
+       interval '1 day'
+     ) AS d
+     WHERE p.start_date <= $4::date
+       AND p.end_date >= $3::date
+     ORDER BY p.child_id NULLS LAST, p.created_at ASC`,
+    [children.map((child) => child.id), children.map((child) => child.household_id), from, to],
+  );
+  const byChildId = new Map<string, Map<string, OffDay>>();
+  for (const child of children) {
+    byChildId.set(child.id, new Map());
+  }
+  for (const row of result.rows) {
+    const offDays = byChildId.get(row.for_child_id);
+    if (offDays && !offDays.has(row.date)) {
+      offDays.set(row.date, { reason: row.reason, child_id: row.child_id });
+    }
+  }
+  return byChildId;
+};
+
+// Off periods that cover the child between from and to, keyed by date.
+const loadOffDays = async (
+  db: Queryable,
+  childId: string,
+  householdId: string,
+  from: string,
+  to: string,
+): Promise<Map<string, OffDay>> => {
+  const byChildId = await loadChildrenOffDays(
+    db,
+    [{ id: childId, household_id: householdId }],
+    from,
+    to,
+  );
+  return byChildId.get(childId) ?? new Map();
+};
+
+// Exceptions that touch [from, to] by either their original date or the date
+// they were moved to, grouped by task id for resolveOccurrence.
+const loadTaskExceptions = async (
+  db: Queryable,
+  taskIds: string[],
+  from: string,
+  to: string,
+): Promise<Map<string, TaskException[]>> => {
+  const result = await db.query(
+    `SELECT task_id,
+            TO_CHAR(date, 'YYYY-MM-DD') AS date,
+            action,
+            TO_CHAR(moved_to, 'YYYY-MM-DD') AS moved_to,
+            minutes
+     FROM task_exceptions
+     WHERE task_id = ANY($1::uuid[])
+       AND (date BETWEEN $2 AND $3 OR moved_to BETWEEN $2 AND $3)`,
+    [taskIds, from, to],
+  );
+  const byTaskId = new Map<string, TaskException[]>();
+  for (const row of result.rows) {
+    const list = byTaskId.get(row.task_id) ?? [];
+    list.push(row);
+    byTaskId.set(row.task_id, list);
+  }
+  return byTaskId;
+};
+
+type HouseholdRole = "owner" | "editor" | "viewer";
+
+const householdRoleRank: Record<HouseholdRole, number> = {
+  viewer: 1,
+  editor: 2,
+  owner: 3,
+};
+
+const isHouseholdRole = (value: unknown): value is HouseholdRole =>
+  value === "owner" || value === "editor" || value === "viewer";
+
+const hasHouseholdRole = (role: HouseholdRole, minRole: HouseholdRole): boolean =>
+  householdRoleRank[role] >= householdRoleRank[minRole];
+
+type ChildAccess =
+  | { ok: true; ownerUserId: string; householdId: string; role: HouseholdRole }
+  | { ok: false; status: 403 | 404; error: "forbidden" | "not_found" };
+
+// Children are shared through their household, so access is decided by the
+// caller's membership role rather than by children.user_id. Restricted tokens
+// must also hold the scope the route asks for.
+const authorizeChild = async (
+  db: Queryable,
+  auth: AuthContext,
+  childId: string,
+  minRole: HouseholdRole,
+  scope: AuthScope = "full",
+): Promise<ChildAccess> => {
+  if (!hasScope(auth, scope, childId)) {
+    return { ok: false, status: 403, error: "forbidden" };
+  }
+  const result = await db.query(
+    `SELECT c.user_id, c.household_id, m.role
+     FROM children c
+     JOIN household_members m ON m.household_id = c.household_id AND m.user_id = $2
+     WHERE c.id = $1`,
+    [childId, auth.userId],
+  );
+  const row = result.rows[0];
+  if (!row) {
+    return { ok: false, status: 404, error: "not_found" };
+  }
+  if (!hasHouseholdRole(row.role, minRole)) {
+    return { ok: false, status: 403, error: "forbidden" };
+  }
+  return { ok: true, ownerUserId: row.user_id, householdId: row.household_id, role: row.role };
+};
+
+const getHouseholdRole = async (
+  db: Queryable,
+  userId: string,
+  householdId: string,
+): Promise<HouseholdRole | null> => {
+  const result = await db.query(
+    "SELECT role FROM household_members WHERE household_id = $1 AND user_id = $2",
+    [householdId, userId],
+  );
+  return result.rows[0]?.role ?? null;
+};
+
+// The household new children go into when the client doesn't pick one. Call
+// inside a transaction: the advisory lock keeps concurrent requests from
+// creating two households for the same user.
+const getDefaultHouseholdId = async (db: Queryable, userId: string): Promise<string> => {
+  await db.query("SELECT pg_advisory_xact_lock(hashtext($1))", [userId]);
+  const existing = await db.query(
+    `SELECT household_id FROM household_members
+     WHERE user_id = $1 AND role = 'owner'
+     ORDER BY created_at ASC
+     LIMIT 1`,
+    [userId],
+  );
+  if (existing.rows[0]) {
+    return existing.rows[0].household_id;
+  }
+  const created = await db.query("INSERT INTO households (name) VALUES ($1) RETURNING id", [
+    "Family",
+  ]);
+  const householdId = created.rows[0].id;
+  await db.query(
+    "INSERT INTO household_members (household_id, user_id, role) VALUES ($1, $2, 'owner')",
+    [householdId, userId],
+  );
+  return householdId;
+};
+
+const householdInviteTtlDays = 7;
+
+app.get("/api/v1/households", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+
+  try {
+    const result = await pool.query(
+      `SELECT h.id, h.name, m.role
+       FROM households h
+       JOIN household_members m ON m.household_id = h.id
+       WHERE m.user_id = $1
+       ORDER BY h.created_at ASC`,
+      [userId],
+    );
+    return res.json(result.rows);
+  } catch (error) {
+    console.error("list households failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+app.patch("/api/v1/households/:householdId", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { householdId } = req.params;
+  const { name } = req.body ?? {};
+
+  if (!isUuid(householdId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (typeof name !== "string" || !name.trim()) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const role = await getHouseholdRole(pool, userId, householdId);
+    if (!role) {
+      return res.status(404).json({ error: "not_found" });
+    }
+    if (!hasHouseholdRole(role, "owner")) {
+      return res.status(403).json({ error: "forbidden" });
+    }
+
+    const result = await pool.query(
+      "UPDATE households SET name = $1, updated_at = now() WHERE id = $2 RETURNING id, name",
+      [name.trim(), householdId],
+    );
+    return res.json({ ...result.rows[0], role });
+  } catch (error) {
+    console.error("update household failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+app.get("/api/v1/households/:householdId/members", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { householdId } = req.params;
+
+  if (!isUuid(householdId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const role = await getHouseholdRole(pool, userId, householdId);
+    if (!role) {
+      return res.status(404).json({ error: "not_found" });
+    }
+
+    const result = await pool.query(
+      `SELECT u.id AS user_id, u.email, u.display_name, u.avatar_url, m.role, m.created_at
+       FROM household_members m
+       JOIN users u ON u.id = m.user_id
+       WHERE m.household_id = $1
+       ORDER BY m.created_at ASC`,
+      [householdId],
+    );
+    return res.json(result.rows);
+  } catch (error) {
+    console.error("list household members failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+app.patch("/api/v1/households/:householdId/members/:memberId", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { householdId, memberId } = req.params;
+  const { role } = req.body ?? {};
+
+  if (!isUuid(householdId) || !isUuid(memberId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (!isHouseholdRole(role)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const callerRole = await getHouseholdRole(client, userId, householdId);
+    if (!callerRole) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "not_found" });
+    }
+    if (!hasHouseholdRole(callerRole, "owner")) {
+      await client.query("ROLLBACK");
+      return res.status(403).json({ error: "forbidden" });
+    }
+
+    const owners = await client.query(
+      "SELECT user_id FROM household_members WHERE household_id = $1 AND role = 'owner' FOR UPDATE",
+      [householdId],
+    );
+    const isOnlyOwner = owners.rowCount === 1 && owners.rows[0].user_id === memberId;
+    if (isOnlyOwner && role !== "owner") {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: "last_owner" });
+    }
+
+    const result = await client.query(
+      `UPDATE household_members SET role = $1
+       WHERE household_id = $2 AND user_id = $3
+       RETURNING user_id, role`,
+      [role, householdId, memberId],
+    );
+    if (result.rowCount === 0) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "not_found" });
+    }
+
+    await client.query("COMMIT");
+    return res.json(result.rows[0]);
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("update household member failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  } finally {
+    client.release();
+  }
+});
+
+// Owners can remove anyone; any member can remove themselves (leave).
+app.delete("/api/v1/households/:householdId/members/:memberId", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { householdId, memberId } = req.params;
+
+  if (!isUuid(householdId) || !isUuid(memberId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const callerRole = await getHouseholdRole(client, userId, householdId);
+    if (!callerRole) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "not_found" });
+    }
+    if (memberId !== userId && !hasHouseholdRole(callerRole, "owner")) {
+      await client.query("ROLLBACK");
+      return res.status(403).json({ error: "forbidden" });
+    }
+
+    const owners = await client.query(
+      "SELECT user_id FROM household_members WHERE household_id = $1 AND role = 'owner' FOR UPDATE",
+      [householdId],
+    );
+    if (owners.rowCount === 1 && owners.rows[0].user_id === memberId) {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: "last_owner" });
+    }
+
+    const result = await client.query(
+      "DELETE FROM household_members WHERE household_id = $1 AND user_id = $2",
+      [householdId, memberId],
+    );
+    if (result.rowCount === 0) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "not_found" });
+    }
+    // Kid tokens are issued on behalf of whoever set the PIN, as in purgeUser.
+    await client.query(
+      `UPDATE children
+       SET pin_hash = NULL, pin_set_by = NULL, kid_token_version = kid_token_version + 1
+       WHERE household_id = $1 AND pin_set_by = $2`,
+      [householdId, memberId],
+    );
+
+    await client.query("COMMIT");
+    return res.status(204).send();
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("remove household member failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  } finally {
+    client.release();
+  }
+});
+
+app.get("/api/v1/households/:householdId/invites", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { householdId } = req.params;
+
+  if (!isUuid(householdId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const role = await getHouseholdRole(pool, userId, householdId);
+    if (!role) {
+      return res.status(404).json({ error: "not_found" });
+    }
+    if (!hasHouseholdRole(role, "owner")) {
+      return res.status(403).json({ error: "forbidden" });
+    }
+
+    const result = await pool.query(
+      `SELECT id, email, role, expires_at, created_at
+       FROM household_invites
+       WHERE household_id = $1 AND accepted_at IS NULL AND expires_at > now()
+       ORDER BY created_at ASC`,
+      [householdId],
+    );
+    return res.json(result.rows);
+  } catch (error) {
+    console.error("list household invites failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+app.post("/api/v1/households/:householdId/invites", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { householdId } = req.params;
+  const { email, role } = req.body ?? {};
+
+  if (!isUuid(householdId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (typeof email !== "string" || !isValidEmail(email.trim())) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (!isHouseholdRole(role)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const callerRole = await getHouseholdRole(pool, userId, householdId);
+    if (!callerRole) {
+      return res.status(404).json({ error: "not_found" });
+    }
+    if (!hasHouseholdRole(callerRole, "owner")) {
+      return res.status(403).json({ error: "forbidden" });
+    }
+
+    // Short enough to read out loud; hashed at rest like the other tokens.
+    const code = randomBytes(5).toString("hex").toUpperCase();
+    const result = await pool.query(
+      `INSERT INTO household_invites (household_id, email, role, code_hash, invited_by, expires_at)
+       VALUES ($1, $2, $3, $4, $5, now() + make_interval(days => $6))
+       RETURNING id, email, role, expires_at, created_at`,
+      [householdId, email.trim(), role, hashToken(code), userId, householdInviteTtlDays],
+    );
+    const invite = result.rows[0];
+
+    try {
+      await mailTransport.send({
+        to: invite.email,
+        subject: "家族への招待",
+        text: `学習管理アプリの家族に招待されました。招待コード: ${code}\n（${householdInviteTtlDays}日間有効）`,
+      });
+    } catch (error) {
+      console.error("send household invite failed", error);
+    }
+
+    return res.status(201).json({ ...invite, code });
+  } catch (error) {
+    console.error("create household invite failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+app.delete("/api/v1/households/:householdId/invites/:inviteId", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { householdId, inviteId } = req.params;
+
+  if (!isUuid(householdId) || !isUuid(inviteId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const role = await getHouseholdRole(pool, userId, householdId);
+    if (!role) {
+      return res.status(404).json({ error: "not_found" });
+    }
+    if (!hasHouseholdRole(role, "owner")) {
+      return res.status(403).json({ error: "forbidden" });
+    }
+
+    const result = await pool.query(
+      "DELETE FROM household_invites WHERE id = $1 AND household_id = $2 AND accepted_at IS NULL",
+      [inviteId, householdId],
+    );
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: "not_found" });
+    }
+    return res.status(204).send();
+  } catch (error) {
+    console.error("delete household invite failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+app.get("/api/v1/households/:householdId/off-periods", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { householdId } = req.params;
+  const fromParam = req.query.from;
+  const toParam = req.query.to;
+
+  if (!isUuid(householdId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (fromParam !== undefined && (typeof fromParam !== "string" || !isValidDate(fromParam))) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (toParam !== undefined && (typeof toParam !== "string" || !isValidDate(toParam))) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const role = await getHouseholdRole(pool, userId, householdId);
+    if (!role) {
+      return res.status(404).json({ error: "not_found" });
+    }
+
+    const result = await pool.query(
+      `SELECT id, child_id,
+              TO_CHAR(start_date, 'YYYY-MM-DD') AS start_date,
+              TO_CHAR(end_date, 'YYYY-MM-DD') AS end_date,
+              reason, source, created_at
+       FROM off_periods
+       WHERE household_id = $1
+         AND ($2::date IS NULL OR end_date >= $2::date)
+         AND ($3::date IS NULL OR start_date <= $3::date)
+       ORDER BY start_date ASC, created_at ASC`,
+      [householdId, fromParam ?? null, toParam ?? null],
+    );
+    return res.json(result.rows);
+  } catch (error) {
+    console.error("list off periods failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+// child_id limits an off period (or an imported calendar) to one child; without
+// it the period applies to every child in the household.
+const findHouseholdChild = async (
+  db: Queryable,
+  householdId: string,
+  childId: unknown,
+): Promise<{ ok: true; childId: string | null } | { ok: false }> => {
+  if (childId === undefined || childId === null) {
+    return { ok: true, childId: null };
+  }
+  if (typeof childId !== "string" || !isUuid(childId)) {
+    return { ok: false };
+  }
+  const result = await db.query("SELECT 1 FROM children WHERE id = $1 AND household_id = $2", [
+    childId,
+    householdId,
+  ]);
+  return result.rowCount === 0 ? { ok: false } : { ok: true, childId };
+};
+
+app.post("/api/v1/households/:householdId/off-periods", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { householdId } = req.params;
+  const { child_id, start_date, end_date, reason } = req.body ?? {};
+
+  if (!isUuid(householdId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (typeof start_date !== "string" || !isValidDate(start_date)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (typeof end_date !== "string" || !isValidDate(end_date) || start_date > end_date) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (typeof reason !== "string" || !reason.trim() || reason.trim().length > 200) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const role = await getHouseholdRole(pool, userId, householdId);
+    if (!role) {
+      return res.status(404).json({ error: "not_found" });
+    }
+    if (!hasHouseholdRole(role, "editor")) {
+      return res.status(403).json({ error: "forbidden" });
+    }
+    const child = await findHouseholdChild(pool, householdId, child_id);
+    if (!child.ok) {
+      return res.status(400).json({ error: "invalid_request" });
+    }
+
+    const result = await pool.query(
+      `INSERT INTO off_periods (household_id, child_id, start_date, end_date, reason, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING id, child_id,
+                 TO_CHAR(start_date, 'YYYY-MM-DD') AS start_date,
+                 TO_CHAR(end_date, 'YYYY-MM-DD') AS end_date,
+                 reason, source, created_at`,
+      [householdId, child.childId, start_date, end_date, reason.trim(), userId],
+    );
+    return res.status(201).json(result.rows[0]);
+  } catch (error) {
+    console.error("create off period failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+// Re-importing the same calendar name replaces its previous import, so a
+// yearly holiday file can be loaded again without duplicates.
+app.post("/api/v1/households/:householdId/off-periods/import", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { householdId } = req.params;
+  const { child_id, calendar, format, content } = req.body ?? {};
+
+  if (!isUuid(householdId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (typeof calendar !== "string" || !/^[a-z0-9_-]{1,50}$/.test(calendar)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if ((format !== "ics" && format !== "json") || typeof content !== "string") {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  const periods = parseHolidayCalendar(content, format);
+  if (!periods) {
+    return res.status(400).json({ error: "invalid_calendar" });
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const role = await getHouseholdRole(client, userId, householdId);
+    if (!role) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "not_found" });
+    }
+    if (!hasHouseholdRole(role, "editor")) {
+      await client.query("ROLLBACK");
+      return res.status(403).json({ error: "forbidden" });
+    }
+    const child = await findHouseholdChild(client, householdId, child_id);
+    if (!child.ok) {
+      await client.query("ROLLBACK");
+      return res.status(400).json({ error: "invalid_request" });
+    }
+
+    await client.query(
+      `DELETE FROM off_periods
+       WHERE household_id = $1 AND source = $2 AND child_id IS NOT DISTINCT FROM $3`,
+      [householdId, calendar, child.childId],
+    );
+    if (periods.length > 0) {
+      await client.query(
+        `INSERT INTO off_periods (household_id, child_id, start_date, end_date, reason, source, created_by)
+         SELECT $1, $2, p.start_date, p.end_date, p.reason, $3, $4
+         FROM unnest($5::date[], $6::date[], $7::text[]) AS p(start_date, end_date, reason)`,
+        [
+          householdId,
+          child.childId,
+          calendar,
+          userId,
+          periods.map((period) => period.start_date),
+          periods.map((period) => period.end_date),
+          periods.map((period) => period.reason),
+        ],
+      );
+    }
+
+    await client.query("COMMIT");
+    return res.json({ calendar, imported: periods.length });
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("import off periods failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  } finally {
+    client.release();
+  }
+});
+
+app.delete("/api/v1/households/:householdId/off-periods/:offPeriodId", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { householdId, offPeriodId } = req.params;
+
+  if (!isUuid(householdId) || !isUuid(offPeriodId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const role = await getHouseholdRole(pool, userId, householdId);
+    if (!role) {
+      return res.status(404).json({ error: "not_found" });
+    }
+    if (!hasHouseholdRole(role, "editor")) {
+      return res.status(403).json({ error: "forbidden" });
+    }
+
+    const result = await pool.query(
+      "DELETE FROM off_periods WHERE id = $1 AND household_id = $2",
+      [offPeriodId, householdId],
+    );
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: "not_found" });
+    }
+    return res.status(204).send();
+  } catch (error) {
+    console.error("delete off period failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+app.get("/api/v1/households/:householdId/subjects", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { householdId } = req.params;
+
+  if (!isUuid(householdId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const role = await getHouseholdRole(pool, userId, householdId);
+    if (!role) {
+      return res.status(404).json({ error: "not_found" });
+    }
+
+    const result = await pool.query(
+      `SELECT sub.id, sub.name, sub.color, sub.icon, sub.sort_order,
+              (SELECT COUNT(*)::int FROM tasks t WHERE t.subject_id = sub.id) AS task_count
+       FROM subjects sub
+       WHERE sub.household_id = $1
+       ORDER BY sub.sort_order ASC, sub.name ASC`,
+      [householdId],
+    );
+    return res.json(result.rows);
+  } catch (error) {
+    console.error("list subjects failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+const isValidSubjectColor = (value: unknown): value is string =>
+  typeof value === "string" && /^#[0-9a-fA-F]{6}$/.test(value);
+
+const isValidSubjectIcon = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0 && value.trim().length <= 50;
+
+const isUniqueViolation = (error: unknown): boolean =>
+  typeof error === "object" && error !== null && (error as { code?: unknown }).code === "23505";
+
+app.post("/api/v1/households/:householdId/subjects", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { householdId } = req.params;
+  const { name, color, icon, sort_order } = req.body ?? {};
+
+  if (!isUuid(householdId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (typeof name !== "string" || !name.trim() || name.trim().length > 50) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (color !== undefined && color !== null && !isValidSubjectColor(color)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (icon !== undefined && icon !== null && !isValidSubjectIcon(icon)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (
+    sort_order !== undefined &&
+    (typeof sort_order !== "number" || !Number.isInteger(sort_order))
+  ) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const role = await getHouseholdRole(pool, userId, householdId);
+    if (!role) {
+      return res.status(404).json({ error: "not_found" });
+    }
+    if (!hasHouseholdRole(role, "editor")) {
+      return res.status(403).json({ error: "forbidden" });
+    }
+
+    const result = await pool.query(
+      `INSERT INTO subjects (household_id, name, color, icon, sort_order)
+       SELECT $1, $2, $3, $4, COALESCE($5, MAX(sort_order) + 1, 0)
+       FROM subjects WHERE household_id = $1
+       RETURNING id, name, color, icon, sort_order`,
+      [
+        householdId,
+        name.trim(),
+        color ? color.toLowerCase() : null,
+        icon ? icon.trim() : null,
+        sort_order ?? null,
+      ],
+    );
+    return res.status(201).json(result.rows[0]);
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ error: "subject_exists" });
+    }
+    console.error("create subject failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+// Renames are copied onto tasks.subject, which older clients still read.
+app.patch("/api/v1/households/:householdId/subjects/:subjectId", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { householdId, subjectId } = req.params;
+  const { name, color, icon, sort_order } = req.body ?? {};
+
+  if (!isUuid(householdId) || !isUuid(subjectId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  const fields: string[] = [];
+  const values: unknown[] = [];
+  let index = 1;
+
+  if (name !== undefined) {
+    if (typeof name !== "string" || !name.trim() || name.trim().length > 50) {
+      return res.status(400).json({ error: "invalid_request" });
+    }
+    fields.push(`name = $${index++}`);
+    values.push(name.trim());
+  }
+  if (color !== undefined) {
+    if (color !== null && !isValidSubjectColor(color)) {
+      return res.status(400).json({ error: "invalid_request" });
+    }
+    fields.push(`color = $${index++}`);
+    values.push(color ? color.toLowerCase() : null);
+  }
+  if (icon !== undefined) {
+    if (icon !== null && !isValidSubjectIcon(icon)) {
+      return res.status(400).json({ error: "invalid_request" });
+    }
+    fields.push(`icon = $${index++}`);
+    values.push(icon ? icon.trim() : null);
+  }
+  if (sort_order !== undefined) {
+    if (typeof sort_order !== "number" || !Number.isInteger(sort_order)) {
+      return res.status(400).json({ error: "invalid_request" });
+    }
+    fields.push(`sort_order = $${index++}`);
+    values.push(sort_order);
+  }
+
+  if (fields.length === 0) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  fields.push("updated_at = now()");
+  values.push(subjectId, householdId);
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const role = await getHouseholdRole(client, userId, householdId);
+    if (!role) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "not_found" });
+    }
+    if (!hasHouseholdRole(role, "editor")) {
+      await client.query("ROLLBACK");
+      return res.status(403).json({ error: "forbidden" });
+    }
+
+    const previous = await client.query(
+      "SELECT name FROM subjects WHERE id = $1 AND household_id = $2 FOR UPDATE",
+      [subjectId, householdId],
+    );
+    const result = await client.query(
+      `UPDATE subjects SET ${fields.join(", ")}
+       WHERE id = $${index} AND household_id = $${index + 1}
+       RETURNING id, name, color, icon, sort_order`,
+      values,
+    );
+    const subject = result.rows[0];
+    if (!subject) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "not_found" });
+    }
+    if (name !== undefined) {
+      await client.query("UPDATE tasks SET subject = $1 WHERE subject_id = $2", [
+        subject.name,
+        subject.id,
+      ]);
+      // Templates refer to subjects by name.
+      await client.query(
+        `UPDATE task_template_items i SET subject = $1
+         FROM task_templates t
+         WHERE t.id = i.template_id AND t.household_id = $2 AND lower(i.subject) = lower($3)`,
+        [subject.name, householdId, previous.rows[0]?.name],
+      );
+    }
+
+    await client.query("COMMIT");
+    return res.json(subject);
+  } catch (error) {
+    await client.query("ROLLBACK");
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ error: "subject_exists" });
+    }
+    console.error("update subject failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  } finally {
+    client.release();
+  }
+});
+
+app.delete("/api/v1/households/:householdId/subjects/:subjectId", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { householdId, subjectId } = req.params;
+
+  if (!isUuid(householdId) || !isUuid(subjectId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const role = await getHouseholdRole(client, userId, householdId);
+    if (!role) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "not_found" });
+    }
+    if (!hasHouseholdRole(role, "editor")) {
+      await client.query("ROLLBACK");
+      return res.status(403).json({ error: "forbidden" });
+    }
+
+    // The row lock makes a task, version or goal that starts referencing the
+    // subject wait for the delete, so the in-use check below stays true.
+    const subject = await client.query(
+      "SELECT 1 FROM subjects WHERE id = $1 AND household_id = $2 FOR UPDATE",
+      [subjectId, householdId],
+    );
+    if (subject.rowCount === 0) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "not_found" });
+    }
+
+    // Past task versions keep their subject, so history pins it too.
+    const inUse = await client.query(
+      `SELECT 1 FROM tasks WHERE subject_id = $1
+       UNION ALL
+       SELECT 1 FROM task_versions WHERE subject_id = $1
+       UNION ALL
+       SELECT 1 FROM goals WHERE subject_id = $1
+       LIMIT 1`,
+      [subjectId],
+    );
+    if ((inUse.rowCount ?? 0) > 0) {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: "subject_in_use" });
+    }
+
+    await client.query("DELETE FROM point_rules WHERE subject_id = $1 AND household_id = $2", [
+      subjectId,
+      householdId,
+    ]);
+    await client.query("DELETE FROM subjects WHERE id = $1", [subjectId]);
+
+    await client.query("COMMIT");
+    return res.status(204).send();
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("delete subject failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  } finally {
+    client.release();
+  }
+});
+
+const replaceTemplateTasks = async (db: Queryable, templateId: string, tasks: TemplateTask[]) => {
+  await db.query("DELETE FROM task_template_items WHERE template_id = $1", [templateId]);
+  await db.query(
+    `INSERT INTO task_template_items (template_id, name, description, subject, default_minutes,
+                                      days_mask, rrule, unit, target_quantity, sort_order)
+     SELECT $1, i.name, i.description, i.subject, i.default_minutes, i.days_mask, i.rrule,
+            i.unit, i.target_quantity, i.sort_order - 1
+     FROM unnest($2::text[], $3::text[], $4::text[], $5::int[], $6::int[], $7::text[],
+                 $8::text[], $9::int[])
+          WITH ORDINALITY AS i(name, description, subject, default_minutes, days_mask, rrule,
+                               unit, target_quantity, sort_order)`,
+    [
+      templateId,
+      tasks.map((task) => task.name),
+      tasks.map((task) => task.description),
+      tasks.map((task) => task.subject),
+      tasks.map((task) => task.default_minutes),
+      tasks.map((task) => task.days_mask),
+      tasks.map((task) => task.rrule),
+      tasks.map((task) => task.unit),
+      tasks.map((task) => task.target_quantity),
+    ],
+  );
+};
+
+// A template can be snapshotted from a child's active tasks. Tasks scheduled
+// only by rdates are left out, since templates carry no dates.
+const loadChildTemplateTasks = async (db: Queryable, childId: string): Promise<TemplateTask[]> => {
+  const result = await db.query(
+    `SELECT name, description, subject, default_minutes, days_mask, rrule, unit, target_quantity
+     FROM tasks
+     WHERE child_id = $1 AND is_archived = false
+       AND (days_mask IS NOT NULL OR rrule IS NOT NULL)
+     ORDER BY sort_order ASC, created_at ASC`,
+    [childId],
+  );
+  return result.rows;
+};
+
+app.get("/api/v1/starter-packs", async (req, res) => {
+  const grade = req.query.grade;
+
+  if (grade !== undefined && typeof grade !== "string") {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  return res.json(starterPacks.filter((pack) => grade === undefined || pack.grade === grade));
+});
+
+app.get("/api/v1/households/:householdId/task-templates", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { householdId } = req.params;
+
+  if (!isUuid(householdId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const role = await getHouseholdRole(pool, userId, householdId);
+    if (!role) {
+      return res.status(404).json({ error: "not_found" });
+    }
+
+    const result = await pool.query(
+      `SELECT t.id, t.name, t.description, t.created_by, t.created_at, t.updated_at,
+              (SELECT COALESCE(
+                        json_agg(
+                          json_build_object(
+                            'name', i.name,
+                            'description', i.description,
+                            'subject', i.subject,
+                            'default_minutes', i.default_minutes,
+                            'days_mask', i.days_mask,
+                            'rrule', i.rrule,
+                            'unit', i.unit,
+                            'target_quantity', i.target_quantity
+                          )
+                          ORDER BY i.sort_order
+                        ),
+                        '[]'::json
+                      )
+               FROM task_template_items i
+               WHERE i.template_id = t.id) AS tasks
+       FROM task_templates t
+       WHERE t.household_id = $1
+       ORDER BY t.name ASC, t.created_at ASC`,
+      [householdId],
+    );
+    return res.json(result.rows);
+  } catch (error) {
+    console.error("list task templates failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+// Body: name, description?, and either tasks or child_id (snapshot that
+// child's active tasks).
+app.post("/api/v1/households/:householdId/task-templates", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { householdId } = req.params;
+  const { name, description, tasks, child_id } = req.body ?? {};
+
+  if (!isUuid(householdId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (typeof name !== "string" || !name.trim() || name.trim().length > 100) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (description !== undefined && description !== null && typeof description !== "string") {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if ((tasks === undefined) === (child_id === undefined)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  let templateTasks: TemplateTask[] | null = null;
+  if (tasks !== undefined) {
+    templateTasks = parseTemplateTasks(tasks);
+    if (!templateTasks) {
+      return res.status(400).json({ error: "invalid_request" });
+    }
+  } else if (typeof child_id !== "string" || !isUuid(child_id)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const role = await getHouseholdRole(client, userId, householdId);
+    if (!role) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "not_found" });
+    }
+    if (!hasHouseholdRole(role, "editor")) {
+      await client.query("ROLLBACK");
+      return res.status(403).json({ error: "forbidden" });
+    }
+
+    if (!templateTasks) {
+      const child = await findHouseholdChild(client, householdId, child_id);
+      if (!child.ok || !child.childId) {
+        await client.query("ROLLBACK");
+        return res.status(400).json({ error: "invalid_request" });
+      }
+      templateTasks = await loadChildTemplateTasks(client, child.childId);
+      if (templateTasks.length === 0) {
+        await client.query("ROLLBACK");
+        return res.status(400).json({ error: "no_tasks" });
+      }
+    }
+
+    const result = await client.query(
+      `INSERT INTO task_templates (household_id, name, description, created_by)
+       VALUES ($1, $2, $3, $4)
+       RETURNING id, name, description, created_by, created_at, updated_at`,
+      [householdId, name.trim(), description ?? null, userId],
+    );
+    const template = result.rows[0];
+    await replaceTemplateTasks(client, template.id, templateTasks);
+
+    await client.query("COMMIT");
+    return res.status(201).json({ ...template, tasks: templateTasks });
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("create task template failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  } finally {
+    client.release();
+  }
+});
+
+// Replaces the whole template, including its task list.
+app.put("/api/v1/households/:householdId/task-templates/:templateId", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { householdId, templateId } = req.params;
+  const { name, description, tasks } = req.body ?? {};
+
+  if (!isUuid(householdId) || !isUuid(templateId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (typeof name !== "string" || !name.trim() || name.trim().length > 100) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (description !== undefined && description !== null && typeof description !== "string") {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  const templateTasks = parseTemplateTasks(tasks);
+  if (!templateTasks) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const role = await getHouseholdRole(client, userId, householdId);
+    if (!role) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "not_found" });
+    }
+    if (!hasHouseholdRole(role, "editor")) {
+      await client.query("ROLLBACK");
+      return res.status(403).json({ error: "forbidden" });
+    }
+
+    const result = await client.query(
+      `UPDATE task_templates
+       SET name = $1, description = $2, updated_at = now()
+       WHERE id = $3 AND household_id = $4
+       RETURNING id, name, description, created_by, created_at, updated_at`,
+      [name.trim(), description ?? null, templateId, householdId],
+    );
+    const template = result.rows[0];
+    if (!template) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "not_found" });
+    }
+    await replaceTemplateTasks(client, templateId, templateTasks);
+
+    await client.query("COMMIT");
+    return res.json({ ...template, tasks: templateTasks });
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("update task template failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  } finally {
+    client.release();
+  }
+});
+
+app.delete("/api/v1/households/:householdId/task-templates/:templateId", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { householdId, templateId } = req.params;
+
+  if (!isUuid(householdId) || !isUuid(templateId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const role = await getHouseholdRole(client, userId, householdId);
+    if (!role) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "not_found" });
+    }
+    if (!hasHouseholdRole(role, "editor")) {
+      await client.query("ROLLBACK");
+      return res.status(403).json({ error: "forbidden" });
+    }
+
+    await client.query(
+      `DELETE FROM task_template_items i
+       USING task_templates t
+       WHERE t.id = i.template_id AND t.id = $1 AND t.household_id = $2`,
+      [templateId, householdId],
+    );
+    const result = await client.query(
+      "DELETE FROM task_templates WHERE id = $1 AND household_id = $2",
+      [templateId, householdId],
+    );
+    if (result.rowCount === 0) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "not_found" });
+    }
+
+    await client.query("COMMIT");
+    return res.status(204).send();
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("delete task template failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  } finally {
+    client.release();
+  }
+});
+
+app.get("/api/v1/households/:householdId/point-rules", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { householdId } = req.params;
+
+  if (!isUuid(householdId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const role = await getHouseholdRole(pool, userId, householdId);
+    if (!role) {
+      return res.status(404).json({ error: "not_found" });
+    }
+
+    const result = await pool.query(
+      `SELECT r.id, r.subject_id, sub.name AS subject, r.task_id, t.name AS task_name,
+              t.child_id, r.mode, r.points, r.created_by, r.created_at, r.updated_at
+       FROM point_rules r
+       LEFT JOIN subjects sub ON sub.id = r.subject_id
+       LEFT JOIN tasks t ON t.id = r.task_id
+       WHERE r.household_id = $1
+       ORDER BY r.task_id NULLS FIRST, r.created_at ASC`,
+      [householdId],
+    );
+    return res.json(result.rows);
+  } catch (error) {
+    console.error("list point rules failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+// Body: subject_id or task_id, mode ("task": points per completed task,
+// "minute": points per minute) and points. Replaces the target's rule if it
+// already has one.
+app.put("/api/v1/households/:householdId/point-rules", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { householdId } = req.params;
+  const { subject_id, task_id, mode, points } = req.body ?? {};
+
+  if (!isUuid(householdId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if ((subject_id === undefined) === (task_id === undefined)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  const targetId = subject_id ?? task_id;
+  if (typeof targetId !== "string" || !isUuid(targetId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (!isPointMode(mode)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (typeof points !== "number" || !Number.isInteger(points) || points < 1) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const role = await getHouseholdRole(pool, userId, householdId);
+    if (!role) {
+      return res.status(404).json({ error: "not_found" });
+    }
+    if (!hasHouseholdRole(role, "editor")) {
+      return res.status(403).json({ error: "forbidden" });
+    }
+
+    const target = await pool.query(
+      subject_id !== undefined
+        ? "SELECT 1 FROM subjects WHERE id = $1 AND household_id = $2"
+        : `SELECT 1 FROM tasks t
+           JOIN children c ON c.id = t.child_id
+           WHERE t.id = $1 AND c.household_id = $2`,
+      [targetId, householdId],
+    );
+    if (target.rowCount === 0) {
+      return res.status(400).json({ error: "invalid_request" });
+    }
+
+    const targetColumn = subject_id !== undefined ? "subject_id" : "task_id";
+    const result = await pool.query(
+      `INSERT INTO point_rules (household_id, ${targetColumn}, mode, points, created_by)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (${targetColumn}) DO UPDATE SET
+         mode = EXCLUDED.mode,
+         points = EXCLUDED.points,
+         updated_at = now()
+       RETURNING id, subject_id, task_id, mode, points, created_by, created_at, updated_at`,
+      [householdId, targetId, mode, points, userId],
+    );
+    return res.json(result.rows[0]);
+  } catch (error) {
+    console.error("put point rule failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+app.delete("/api/v1/households/:householdId/point-rules/:ruleId", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { householdId, ruleId } = req.params;
+
+  if (!isUuid(householdId) || !isUuid(ruleId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const role = await getHouseholdRole(pool, userId, householdId);
+    if (!role) {
+      return res.status(404).json({ error: "not_found" });
+    }
+    if (!hasHouseholdRole(role, "editor")) {
+      return res.status(403).json({ error: "forbidden" });
+    }
+
+    const result = await pool.query(
+      "DELETE FROM point_rules WHERE id = $1 AND household_id = $2",
+      [ruleId, householdId],
+    );
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: "not_found" });
+    }
+    return res.status(204).send();
+  } catch (error) {
+    console.error("delete point rule failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+app.get("/api/v1/households/:householdId/rewards", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { householdId } = req.params;
+
+  if (!isUuid(householdId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const role = await getHouseholdRole(pool, userId, householdId);
+    if (!role) {
+      return res.status(404).json({ error: "not_found" });
+    }
+
+    const result = await pool.query(
+      `SELECT id, name, cost, is_active, created_by, created_at, updated_at
+       FROM rewards
+       WHERE household_id = $1
+       ORDER BY cost ASC, created_at ASC`,
+      [householdId],
+    );
+    return res.json(result.rows);
+  } catch (error) {
+    console.error("list rewards failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+app.post("/api/v1/households/:householdId/rewards", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { householdId } = req.params;
+  const { name, cost } = req.body ?? {};
+
+  if (!isUuid(householdId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (typeof name !== "string" || !name.trim() || name.trim().length > 100) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (typeof cost !== "number" || !Number.isInteger(cost) || cost < 1) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const role = await getHouseholdRole(pool, userId, householdId);
+    if (!role) {
+      return res.status(404).json({ error: "not_found" });
+    }
+    if (!hasHouseholdRole(role, "editor")) {
+      return res.status(403).json({ error: "forbidden" });
+    }
+
+    const result = await pool.query(
+      `INSERT INTO rewards (household_id, name, cost, created_by)
+       VALUES ($1, $2, $3, $4)
+       RETURNING id, name, cost, is_active, created_by, created_at, updated_at`,
+      [householdId, name.trim(), cost, userId],
+    );
+    return res.status(201).json(result.rows[0]);
+  } catch (error) {
+    console.error("create reward failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+// A cost change only applies to new requests; pending ones keep the cost they
+// were requested at. is_active: false hides the reward from the children.
+app.patch("/api/v1/households/:householdId/rewards/:rewardId", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { householdId, rewardId } = req.params;
+  const { name, cost, is_active } = req.body ?? {};
+
+  if (!isUuid(householdId) || !isUuid(rewardId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  const fields: string[] = [];
+  const values: unknown[] = [];
+  let index = 1;
+
+  if (name !== undefined) {
+    if (typeof name !== "string" || !name.trim() || name.trim().length > 100) {
+      return res.status(400).json({ error: "invalid_request" });
+    }
+    fields.push(`name = $${index++}`);
+    values.push(name.trim());
+  }
+
+  if (cost !== undefined) {
+    if (typeof cost !== "number" || !Number.isInteger(cost) || cost < 1) {
+      return res.status(400).json({ error: "invalid_request" });
+    }
+    fields.push(`cost = $${index++}`);
+    values.push(cost);
+  }
+
+  if (is_active !== undefined) {
+    if (typeof is_active !== "boolean") {
+      return res.status(400).json({ error: "invalid_request" });
+    }
+    fields.push(`is_active = $${index++}`);
+    values.push(is_active);
+  }
+
+  if (fields.length === 0) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  fields.push("updated_at = now()");
+  values.push(rewardId, householdId);
+
+  try {
+    const role = await getHouseholdRole(pool, userId, householdId);
+    if (!role) {
+      return res.status(404).json({ error: "not_found" });
+    }
+    if (!hasHouseholdRole(role, "editor")) {
+      return res.status(403).json({ error: "forbidden" });
+    }
+
+    const result = await pool.query(
+      `UPDATE rewards SET ${fields.join(", ")}
+       WHERE id = $${index} AND household_id = $${index + 1}
+       RETURNING id, name, cost, is_active, created_by, created_at, updated_at`,
+      values,
+    );
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: "not_found" });
+    }
+    return res.json(result.rows[0]);
+  } catch (error) {
+    console.error("update reward failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+app.delete("/api/v1/households/:householdId/rewards/:rewardId", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { householdId, rewardId } = req.params;
+
+  if (!isUuid(householdId) || !isUuid(rewardId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const role = await getHouseholdRole(pool, userId, householdId);
+    if (!role) {
+      return res.status(404).json({ error: "not_found" });
+    }
+    if (!hasHouseholdRole(role, "editor")) {
+      return res.status(403).json({ error: "forbidden" });
+    }
+
+    // Redemptions keep their reward; deactivate it instead.
+    const inUse = await pool.query(
+      "SELECT 1 FROM reward_redemptions WHERE reward_id = $1 LIMIT 1",
+      [rewardId],
+    );
+    if ((inUse.rowCount ?? 0) > 0) {
+      return res.status(409).json({ error: "reward_in_use" });
+    }
+
+    const result = await pool.query(
+      "DELETE FROM rewards WHERE id = $1 AND household_id = $2",
+      [rewardId, householdId],
+    );
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: "not_found" });
+    }
+    return res.status(204).send();
+  } catch (error) {
+    console.error("delete reward failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+app.post("/api/v1/households/join", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { code } = req.body ?? {};
+
+  if (typeof code !== "string" || !code.trim()) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    // The code alone is not enough: it only works for the invited address.
+    const inviteResult = await client.query(
+      `SELECT i.id, i.household_id, i.role
+       FROM household_invites i
+       JOIN users u ON u.id = $2 AND lower(u.email) = lower(i.email)
+       WHERE i.code_hash = $1 AND i.accepted_at IS NULL AND i.expires_at > now()
+       FOR UPDATE OF i`,
+      [hashToken(code.trim().toUpperCase()), userId],
+    );
+    const invite = inviteResult.rows[0];
+    if (!invite) {
+      await client.query("ROLLBACK");
+      return res.status(400).json({ error: "invalid_code" });
+    }
+
+    const inserted = await client.query(
+      `INSERT INTO household_members (household_id, user_id, role)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (household_id, user_id) DO NOTHING`,
+      [invite.household_id, userId, invite.role],
+    );
+    if (inserted.rowCount === 0) {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: "already_member" });
+    }
+
+    await client.query(
+      "UPDATE household_invites SET accepted_at = now(), accepted_by = $1 WHERE id = $2",
+      [userId, invite.id],
+    );
+
+    await client.query("COMMIT");
+    return res.json({ household_id: invite.household_id, role: invite.role });
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("join household failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  } finally {
+    client.release();
+  }
+});
+
+app.get("/api/v1/children", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+
+  if (!hasScope(req as AuthenticatedRequest, "read")) {
+    return res.status(403).json({ error: "forbidden" });
+  }
+
+  try {
+    const result = await pool.query(
+      `SELECT c.id, c.name, c.grade, c.household_id, m.role, c.streak_mode,
+              c.pin_hash IS NOT NULL AS has_pin
+       FROM children c
+       JOIN household_members m ON m.household_id = c.household_id
+       WHERE m.user_id = $1 AND c.is_active = true
+       ORDER BY c.created_at ASC`,
+      [userId],
+    );
+    return res.json(result.rows);
+  } catch (error) {
+    console.error("list children failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+app.post("/api/v1/children", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { name, grade, household_id } = req.body ?? {};
+
+  if (!hasScope(req as AuthenticatedRequest, "full")) {
+    return res.status(403).json({ error: "forbidden" });
+  }
+
+  if (typeof name !== "string" || !name.trim()) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (grade !== undefined && typeof grade !== "string") {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (household_id !== undefined && (typeof household_id !== "string" || !isUuid(household_id))) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    let householdId: string;
+    if (household_id !== undefined) {
+      const role = await getHouseholdRole(client, userId, household_id);
+      if (!role) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "not_found" });
+      }
+      if (!hasHouseholdRole(role, "editor")) {
+        await client.query("ROLLBACK");
+        return res.status(403).json({ error: "forbidden" });
+      }
+      householdId = household_id;
+    } else {
+      householdId = await getDefaultHouseholdId(client, userId);
+    }
+
+    const result = await client.query(
+      `INSERT INTO children (user_id, household_id, name, grade) VALUES ($1, $2, $3, $4)
+       RETURNING id, name, grade, is_active, household_id`,
+      [userId, householdId, name.trim(), grade ?? null],
+    );
+
+    await client.query("COMMIT");
+    return res.status(201).json(result.rows[0]);
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("create child failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  } finally {
+    client.release();
+  }
+});
+
+app.patch("/api/v1/children/:childId", async (req, res) => {
+  const { childId } = req.params;
+  const { name, grade, is_active, streak_mode } = req.body ?? {};
+
+  if (!isUuid(childId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  const fields: string[] = [];
+  const values: unknown[] = [];
+  let index = 1;
+
+  if (name !== undefined) {
+    if (typeof name !== "string" || !name.trim()) {
+      return res.status(400).json({ error: "invalid_request" });
+    }
+    fields.push(`name = $${index++}`);
+    values.push(name.trim());
+  }
+
+  if (grade !== undefined) {
+    if (typeof grade !== "string") {
+      return res.status(400).json({ error: "invalid_request" });
+    }
+    fields.push(`grade = $${index++}`);
+    values.push(grade);
+  }
+
+  if (is_active !== undefined) {
+    if (typeof is_active !== "boolean") {
+      return res.status(400).json({ error: "invalid_request" });
+    }
+    fields.push(`is_active = $${index++}`);
+    values.push(is_active);
+  }
+
+  if (streak_mode !== undefined) {
+    if (!isStreakMode(streak_mode)) {
+      return res.status(400).json({ error: "invalid_request" });
+    }
+    // Streaks were counted the old way; they are counted again below.
+    fields.push(
+      `longest_streak = CASE WHEN streak_mode = $${index} THEN longest_streak END`,
+      `streak_through = CASE WHEN streak_mode = $${index} THEN streak_through END`,
+      `streak_mode = $${index++}`,
+    );
+    values.push(streak_mode);
+  }
+
+  if (fields.length === 0) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  fields.push("updated_at = now()");
+  values.push(childId);
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    // Deactivating or restoring a child is an owner decision; renames are not.
+    const access = await authorizeChild(
+      client,
+      req as AuthenticatedRequest,
+      childId,
+      is_active !== undefined ? "owner" : "editor",
+    );
+    if (!access.ok) {
+      await client.query("ROLLBACK");
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const result = await client.query(
+      `UPDATE children SET ${fields.join(", ")} WHERE id = $${index}
+       RETURNING id, name, grade, is_active, streak_mode`,
+      values,
+    );
+
+    if (result.rowCount === 0) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "not_found" });
+    }
+
+    // A new streak_mode means one pass over the whole history; it is done here
+    // so that log writes never have to.
+    if (streak_mode !== undefined) {
+      await evaluateAchievements(client, childId, access.householdId, formatUtcDate(new Date()));
+    }
+
+    await client.query("COMMIT");
+    return res.json(result.rows[0]);
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("update child failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  } finally {
+    client.release();
+  }
+});
+
+app.put("/api/v1/children/:id", async (req, res) => {
+  const { id } = req.params;
+  const { name, grade } = req.body ?? {};
+
+  if (!isUuid(id)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (typeof name !== "string" || !name.trim()) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (
+    grade !== undefined &&
+    grade !== null &&
+    typeof grade !== "string"
+  ) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  const normalizedGrade =
+    grade === undefined || grade === null || grade.trim() === ""
+      ? null
+      : grade.trim();
+
+  try {
+    const access = await authorizeChild(pool, req as AuthenticatedRequest, id, "editor");
+    if (!access.ok) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const result = await pool.query(
+      `UPDATE children
+       SET name = $1, grade = $2, updated_at = now()
+       WHERE id = $3
+       RETURNING id, name, grade, is_active`,
+      [name.trim(), normalizedGrade, id],
+    );
+
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: "not_found" });
+    }
+
+    return res.json(result.rows[0]);
+  } catch (error) {
+    console.error("update child (put) failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+app.delete("/api/v1/children/:childId", async (req, res) => {
+  const { childId } = req.params;
+
+  if (!isUuid(childId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const access = await authorizeChild(pool, req as AuthenticatedRequest, childId, "owner");
+    if (!access.ok) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const result = await pool.query(
+      "UPDATE children SET is_active = false, updated_at = now() WHERE id = $1",
+      [childId],
+    );
+
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: "not_found" });
+    }
+
+    return res.status(204).send();
+  } catch (error) {
+    console.error("delete child failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+const isValidPin = (value: unknown): value is string =>
+  typeof value === "string" && /^\d{4,8}$/.test(value);
+
+// Setting or clearing a PIN bumps kid_token_version, which signs out every kid
+// session issued under the old PIN.
+app.put("/api/v1/children/:childId/pin", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { childId } = req.params;
+  const { pin } = req.body ?? {};
+
+  if (!isUuid(childId) || !isValidPin(pin)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const access = await authorizeChild(pool, req as AuthenticatedRequest, childId, "editor");
+    if (!access.ok) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const pinHash = await bcrypt.hash(pin, 10);
+    await pool.query(
+      `UPDATE children
+       SET pin_hash = $1, pin_set_by = $2, kid_token_version = kid_token_version + 1,
+           updated_at = now()
+       WHERE id = $3`,
+      [pinHash, userId, childId],
+    );
+    await kidPinLockout.reset(childId);
+    return res.status(204).send();
+  } catch (error) {
+    console.error("set child pin failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+app.delete("/api/v1/children/:childId/pin", async (req, res) => {
+  const { childId } = req.params;
+
+  if (!isUuid(childId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const access = await authorizeChild(pool, req as AuthenticatedRequest, childId, "editor");
+    if (!access.ok) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    await pool.query(
+      `UPDATE children
+       SET pin_hash = NULL, pin_set_by = NULL, kid_token_version = kid_token_version + 1,
+           updated_at = now()
+       WHERE id = $1`,
+      [childId],
+    );
+    return res.status(204).send();
+  } catch (error) {
+    console.error("delete child pin failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+app.get("/api/v1/children/:childId/tasks", async (req, res) => {
+  const { childId } = req.params;
+  const archivedParam = req.query.archived;
+
+  if (!isUuid(childId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  let archived = false;
+  if (archivedParam !== undefined) {
+    if (archivedParam === "true") {
+      archived = true;
+    } else if (archivedParam === "false") {
+      archived = false;
+    } else {
+      return res.status(400).json({ error: "invalid_request" });
+    }
+  }
+
+  try {
+    const access = await authorizeChild(
+      pool,
+      req as AuthenticatedRequest,
+      childId,
+      "viewer",
+      "read",
+    );
+    if (!access.ok) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const result = await pool.query(
+      `SELECT id,
+              name,
+              description,
+              subject,
+              subject_id,
+              default_minutes,
+              days_mask,
+              rrule,
+              rdates,
+              is_archived,
+              unit,
+              target_quantity,
+              TO_CHAR(start_date, 'YYYY-MM-DD') AS start_date,
+              TO_CHAR(end_date, 'YYYY-MM-DD') AS end_date
+       FROM tasks
+       WHERE child_id = $1 AND is_archived = $2
+       ORDER BY sort_order ASC`,
+      [childId, archived],
+    );
+    return res.json(result.rows);
+  } catch (error) {
+    console.error("list tasks failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+app.get("/api/v1/children/:childId/daily-view", async (req, res) => {
+  const { childId } = req.params;
+  const dateParam = req.query.date;
+
+  if (!isUuid(childId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (typeof dateParam !== "string" || !isValidDate(dateParam)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  const { label: weekday } = weekdayInfo(dateParam);
+
+  try {
+    const access = await authorizeChild(
+      pool,
+      req as AuthenticatedRequest,
+      childId,
+      "viewer",
+      "daily_view",
+    );
+    if (!access.ok) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const tasksResult = await pool.query(
+      `SELECT t.id, t.name, sub.name AS subject, t.subject_id,
+              sub.color AS subject_color, sub.icon AS subject_icon,
+              t.default_minutes, t.days_mask, t.rrule, t.rdates, t.unit, t.target_quantity,
+              TO_CHAR(t.start_date, 'YYYY-MM-DD') AS start_date,
+              TO_CHAR(t.end_date, 'YYYY-MM-DD') AS end_date
+       FROM tasks t
+       JOIN subjects sub ON sub.id = t.subject_id
+       WHERE t.child_id = $1 AND t.is_archived = false
+       ORDER BY t.sort_order ASC`,
+      [childId],
+    );
+    const exceptionsByTaskId = await loadTaskExceptions(
+      pool,
+      tasksResult.rows.map((task) => task.id),
+      dateParam,
+      dateParam,
+    );
+    const scheduledTasks = tasksResult.rows.flatMap((task) => {
+      const occurrence = resolveOccurrence(
+        task,
+        exceptionsByTaskId.get(task.id) ?? [],
+        dateParam,
+      );
+      return occurrence ? [{ ...task, occurrence }] : [];
+    });
+
+    const logsResult = await pool.query(
+      `SELECT task_id, minutes, quantity, note, difficulty, mood
+       FROM study_logs
+       WHERE child_id = $1 AND date = $2`,
+      [childId, dateParam],
+    );
+
+    const logByTaskId = new Map<
+      string,
+      {
+        minutes: number;
+        quantity: number | null;
+        note: string | null;
+        difficulty: number | null;
+        mood: string | null;
+      }
+    >();
+    for (const row of logsResult.rows) {
+      logByTaskId.set(row.task_id, row);
+    }
+
+    const tasks = scheduledTasks.map((task) => {
+      // A minutes override from task_exceptions replaces the default for this day.
+      const defaultMinutes = task.occurrence.minutes ?? task.default_minutes;
+      const log = logByTaskId.get(task.id);
+      if (log !== undefined) {
+        return {
+          task_id: task.id,
+          name: task.name,
+          subject: task.subject,
+          subject_id: task.subject_id,
+          subject_color: task.subject_color,
+          subject_icon: task.subject_icon,
+          default_minutes: defaultMinutes,
+          days_mask: task.days_mask,
+          moved_from: task.occurrence.moved_from,
+          unit: task.unit,
+          target_quantity: task.target_quantity,
+          is_done: true,
+          minutes: log.minutes,
+          quantity: log.quantity,
+          quantity_progress: quantityProgress(log.quantity, task.target_quantity),
+          note: log.note,
+          difficulty: log.difficulty,
+          mood: log.mood,
+        };
+      }
+      return {
+        task_id: task.id,
+        name: task.name,
+        subject: task.subject,
+        subject_id: task.subject_id,
+        subject_color: task.subject_color,
+        subject_icon: task.subject_icon,
+        default_minutes: defaultMinutes,
+        days_mask: task.days_mask,
+        moved_from: task.occurrence.moved_from,
+        unit: task.unit,
+        target_quantity: task.target_quantity,
+        is_done: false,
+        minutes: defaultMinutes,
+        quantity: null,
+        quantity_progress: quantityProgress(0, task.target_quantity),
+        note: null,
+        difficulty: null,
+        mood: null,
+      };
+    });
+
+    // Tasks are suspended on off days; anything already logged still shows.
+    const offDay =
+      (await loadOffDays(pool, childId, access.householdId, dateParam, dateParam)).get(
+        dateParam,
+      ) ?? null;
+    const goals = await loadGoalProgress(pool, childId, access.householdId, dateParam);
+    return res.json({
+      date: dateParam,
+      weekday,
+      holiday: offDay,
+      tasks: offDay ? tasks.filter((task) => task.is_done) : tasks,
+      goals,
+      // The running or paused timer, whichever day it logs to.
+      timer: await loadActiveTimer(pool, childId),
+    });
+  } catch (error) {
+    console.error("get daily view failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+// Day color on the calendar; see "calendar status 定義" in the README. Off days
+// are reported as "holiday" before this is reached.
+const calendarStatus = (dateKey: string, today: string, total: number, done: number): string => {
+  if (dateKey > today || total === 0) {
+    return "white";
+  }
+  if (done === total) {
+    return "green";
+  }
+  return done > 0 ? "yellow" : "red";
+};
+
+// Calendar days between from and to, read off the plan report so they agree
+// with summary, goals and streaks. Days after today are listed too (white), so
+// the report runs through to; its skipped counts are not used here.
+const buildCalendarDays = (input: Omit<PlanInput, "from" | "to">, from: string, to: string) =>
+  buildPlanReport({ ...input, from, to, today: to > input.today ? to : input.today }).by_day.map(
+    (day) => ({
+      date: day.date,
+      status:
+        day.holiday !== null
+          ? "holiday"
+          : calendarStatus(day.date, input.today, day.planned_count, day.done_count),
+      total: day.planned_count,
+      done: day.done_count,
+      minutes: day.actual_minutes,
+      ...(day.holiday !== null ? { reason: day.holiday } : {}),
+    }),
+  );
+
+app.get("/api/v1/children/:childId/calendar-summary", async (req, res) => {
+  const { childId } = req.params;
+  const fromParam = req.query.from;
+  const toParam = req.query.to;
+
+  if (!isUuid(childId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (typeof fromParam !== "string" || !isValidDate(fromParam)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (typeof toParam !== "string" || !isValidDate(toParam)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  const fromDate = new Date(`${fromParam}T00:00:00Z`);
+  const toDate = new Date(`${toParam}T00:00:00Z`);
+  if (fromDate.getTime() > toDate.getTime()) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  const dayCount =
+    Math.floor((toDate.getTime() - fromDate.getTime()) / 86400000) + 1;
+  if (dayCount > 62) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const access = await authorizeChild(
+      pool,
+      req as AuthenticatedRequest,
+      childId,
+      "viewer",
+      "read",
+    );
+    if (!access.ok) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const { input } = await loadPlanData(pool, childId, access.householdId, fromParam, toParam);
+    const days = buildCalendarDays(input, fromParam, toParam).map(
+      ({ minutes, ...day }) => day,
+    );
+
+    return res.json({ from: fromParam, to: toParam, days });
+  } catch (error) {
+    console.error("get calendar summary failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+// Everything buildPlanReport needs for each child between from and to, keyed
+// by child id. Each day uses the task definition in effect that day; a task's
+// first version covers everything since the task was created.
+const loadChildrenPlanInputs = async (
+  db: Queryable,
+  children: Array<{ id: string; household_id: string }>,
+  from: string,
+  to: string,
+): Promise<Map<string, Omit<PlanInput, "from" | "to">>> => {
+  const childIds = children.map((child) => child.id);
+  const versionsResult = await db.query(
+    `SELECT t.child_id, v.task_id,
+            TO_CHAR(
+              (CASE WHEN v.version = 1 THEN t.created_at ELSE v.created_at END)
+                AT TIME ZONE 'UTC',
+              'YYYY-MM-DD'
+            ) AS effective_from,
+            v.name, v.subject_id, v.default_minutes, v.days_mask, v.rrule, v.rdates,
+            TO_CHAR(v.start_date, 'YYYY-MM-DD') AS start_date,
+            TO_CHAR(v.end_date, 'YYYY-MM-DD') AS end_date,
+            v.is_archived
+     FROM task_versions v
+     JOIN tasks t ON t.id = v.task_id
+     WHERE t.child_id = ANY($1::uuid[])
+     ORDER BY v.task_id, v.version ASC`,
+    [childIds],
+  );
+  const logsResult = await db.query(
+    `SELECT s.child_id, s.task_id, TO_CHAR(s.date, 'YYYY-MM-DD') AS date, s.minutes,
+            v.subject_id
+     FROM study_logs s
+     JOIN task_versions v ON v.task_id = s.task_id AND v.version = s.task_version
+     WHERE s.child_id = ANY($1::uuid[]) AND s.date BETWEEN $2 AND $3`,
+    [childIds, from, to],
+  );
+  const exceptionsByTaskId = await loadTaskExceptions(
+    db,
+    Array.from(new Set(versionsResult.rows.map((row) => String(row.task_id)))),
+    from,
+    to,
+  );
+  const offDaysByChildId = await loadChildrenOffDays(db, children, from, to);
+
+  const today = formatUtcDate(new Date());
+  const inputs = new Map<string, Omit<PlanInput, "from" | "to">>();
+  for (const child of children) {
+    inputs.set(child.id, {
+      today,
+      versionsByTaskId: new Map(),
+      exceptionsByTaskId,
+      offDays: offDaysByChildId.get(child.id) ?? new Map(),
+      logs: [],
+    });
+  }
+  for (const row of versionsResult.rows) {
+    const versionsByTaskId = inputs.get(row.child_id)?.versionsByTaskId;
+    if (versionsByTaskId) {
+      const list = versionsByTaskId.get(row.task_id) ?? [];
+      list.push(row);
+      versionsByTaskId.set(row.task_id, list);
+    }
+  }
+  for (const row of logsResult.rows) {
+    inputs.get(row.child_id)?.logs.push(row);
+  }
+  return inputs;
+};
+
+// loadChildrenPlanInputs for one child. withSubject adds subject names and
+// colors to report entries.
+const loadPlanData = async (
+  db: Queryable,
+  childId: string,
+  householdId: string,
+  from: string,
+  to: string,
+) => {
+  const inputs = await loadChildrenPlanInputs(
+    db,
+    [{ id: childId, household_id: householdId }],
+    from,
+    to,
+  );
+  const subjectsResult = await db.query(
+    "SELECT id, name, color FROM subjects WHERE household_id = $1",
+    [householdId],
+  );
+  const subjectsById = new Map<string, { name: string; color: string | null }>();
+  for (const row of subjectsResult.rows) {
+    subjectsById.set(row.id, { name: row.name, color: row.color });
+  }
+
+  const input = inputs.get(childId) ?? {
+    today: formatUtcDate(new Date()),
+    versionsByTaskId: new Map(),
+    exceptionsByTaskId: new Map(),
+    offDays: new Map(),
+    logs: [],
+  };
+  const withSubject = <T extends { subject_id: string }>(entry: T) => ({
+    ...entry,
+    subject: subjectsById.get(entry.subject_id)?.name ?? null,
+    color: subjectsById.get(entry.subject_id)?.color ?? null,
+  });
+  return { input, withSubject };
+};
+
+type StreakChild = {
+  id: string;
+  household_id: string;
+  streak_mode: StreakMode;
+  // Stored best streak, or null when it has not been counted yet.
+  longest_streak: number | null;
+  checkpoint: StreakCheckpoint | null;
+  // Where the history window opens; null for the whole history.
+  from: string | null;
+};
+
+// Streak windows open on the Monday a week before today, so the last whole
+// week is always in them for first_green_week.
+const recentHistoryFrom = (today: string): string => weekOf(addDays(today, -7));
+
+// children.streak_* columns; no checkpoint until streak_through is set.
+const readStreakCheckpoint = (row: {
+  streak_through: string | null;
+  streak_current: number;
+  streak_since: string | null;
+}): StreakCheckpoint | null =>
+  row.streak_through === null
+    ? null
+    : { through: row.streak_through, current: row.streak_current, since: row.streak_since };
+
+type StreakWindow = StreakChild & {
+  firstWeek: string;
+  from: string;
+  carried: StreakCheckpoint | null;
+};
+
+// Streaks and day-based badges of each child, counted over a window of their
+// history. A window that opens inside a streak is moved back to the day after
+// the child's checkpoint, carrying its streak in, when the checkpoint is
+// before the window. Otherwise it is widened (by four weeks, then twice as
+// far each time) until the streak's first day is in it. No window reaches
+// back past the week of the child's first log, as nothing counts before that.
+// longest also takes the stored best streak into account.
+//
+// Each result also holds the checkpoint to store next: the streak at the end
+// of the Sunday before the recent window, or null when the window does not
+// show it.
+const loadStreaks = async (
+  db: Queryable,
+  children: StreakChild[],
+): Promise<Map<string, AchievementResult & { checkpoint: StreakCheckpoint | null }>> => {
+  const today = formatUtcDate(new Date());
+  const firstLogResult = await db.query(
+    `SELECT child_id, TO_CHAR(MIN(date), 'YYYY-MM-DD') AS first_log
+     FROM study_logs
+     WHERE child_id = ANY($1::uuid[])
+     GROUP BY child_id`,
+    [children.map((child) => child.id)],
+  );
+  const firstWeekByChildId = new Map<string, string>(
+    firstLogResult.rows.map((row) => [row.child_id, weekOf(row.first_log)]),
+  );
+
+  let pending = children.map((child): StreakWindow => {
+    const firstWeek = firstWeekByChildId.get(child.id) ?? weekOf(today);
+    const from = child.from === null || child.from < firstWeek ? firstWeek : child.from;
+    return { ...child, firstWeek, from: from < today ? from : today, carried: null };
+  });
+  const windows = new Map<string, StreakWindow & { days: PlanReport["by_day"] }>();
+  let widenBy = 28;
+  while (pending.length > 0) {
+    const from = pending.reduce((min, child) => (child.from < min ? child.from : min), today);
+    const inputs = await loadChildrenPlanInputs(db, pending, from, today);
+    const next: StreakWindow[] = [];
+    for (const child of pending) {
+      const input = inputs.get(child.id);
+      if (!input) {
+        continue;
+      }
+      const days = buildPlanReport({ ...input, from: child.from, to: today }).by_day;
+      const { checkpoint } = child;
+      if (
+        child.carried !== null ||
+        child.from <= child.firstWeek ||
+        !opensInsideStreak(days, child.streak_mode, today)
+      ) {
+        windows.set(child.id, { ...child, days });
+      } else if (checkpoint && checkpoint.through < child.from) {
+        next.push({ ...child, from: addDays(checkpoint.through, 1), carried: checkpoint });
+      } else {
+        const widened = addDays(child.from, -widenBy);
+        next.push({ ...child, from: widened < child.firstWeek ? child.firstWeek : widened });
+      }
+    }
+    pending = next;
+    widenBy *= 2;
+  }
+
+  const checkpointThrough = addDays(recentHistoryFrom(today), -1);
+  const streaksByChildId = new Map<
+    string,
+    AchievementResult & { checkpoint: StreakCheckpoint | null }
+  >();
+  for (const child of children) {
+    const window = windows.get(child.id);
+    const carried = window?.carried ?? undefined;
+    const achievements = buildAchievements(window?.days ?? [], child.streak_mode, today, carried);
+    const longest = Math.max(child.longest_streak ?? 0, achievements.streaks.longest);
+
+    // The streak at checkpointThrough is known when it was carried in, when
+    // the window starts with the history, or when it breaks by then.
+    let checkpoint: StreakCheckpoint | null = null;
+    if (carried && carried.through >= checkpointThrough) {
+      checkpoint = carried;
+    } else if (window) {
+      const settled = window.days.filter((day) => day.date <= checkpointThrough);
+      if (
+        carried ||
+        window.from <= window.firstWeek ||
+        !opensInsideStreak(settled, child.streak_mode, today)
+      ) {
+        const { streaks } = buildAchievements(settled, child.streak_mode, today, carried);
+        checkpoint = {
+          through: checkpointThrough,
+          current: streaks.current,
+          since: streaks.current_since,
+        };
+      }
+    }
+
+    streaksByChildId.set(child.id, {
+      ...achievements,
+      streaks: { ...achievements.streaks, longest },
+      checkpoint,
+    });
+  }
+  return streaksByChildId;
+};
+
+const loadStreakChild = async (
+  db: Queryable,
+  childId: string,
+  householdId: string,
+): Promise<Omit<StreakChild, "from">> => {
+  const result = await db.query(
+    `SELECT streak_mode, longest_streak, streak_current,
+            TO_CHAR(streak_through, 'YYYY-MM-DD') AS streak_through,
+            TO_CHAR(streak_since, 'YYYY-MM-DD') AS streak_since
+     FROM children WHERE id = $1`,
+    [childId],
+  );
+  const row = result.rows[0];
+  return {
+    id: childId,
+    household_id: householdId,
+    streak_mode: isStreakMode(row?.streak_mode) ? row.streak_mode : "logged",
+    longest_streak: row?.longest_streak ?? null,
+    checkpoint: row ? readStreakCheckpoint(row) : null,
+  };
+};
+
+// Every badge there is; earned_on is null until the child earns it.
+const loadBadges = async (db: Queryable, childId: string) => {
+  const result = await db.query(
+    `SELECT badge, TO_CHAR(earned_on, 'YYYY-MM-DD') AS earned_on
+     FROM child_badges
+     WHERE child_id = $1`,
+    [childId],
+  );
+  const earnedOn = new Map<string, string>(result.rows.map((row) => [row.badge, row.earned_on]));
+  return badgeDefinitions.map((definition) => ({
+    ...definition,
+    earned_on: earnedOn.get(definition.id) ?? null,
+  }));
+};
+
+// Counts the child's streaks around the recent weeks and changedOn (the day
+// just written), stores the longest streak and the next checkpoint, and awards
+// every badge whose rule is met for the first time. Badges already stored are
+// kept as they are. Usually only the days since the checkpoint are read; a
+// write on or before it counts back from changedOn instead, and the whole
+// history is only scanned while the longest streak is uncounted. Call from
+// write paths, with the child row locked.
+const evaluateAchievements = async (
+  db: Queryable,
+  childId: string,
+  householdId: string,
+  changedOn: string,
+) => {
+  const today = formatUtcDate(new Date());
+  const child = await loadStreakChild(db, childId, householdId);
+  const recentFrom = recentHistoryFrom(today);
+  const changedWeek = weekOf(changedOn);
+  let from: string | null = changedWeek < recentFrom ? changedWeek : recentFrom;
+  if (child.longest_streak === null) {
+    from = null;
+  }
+  const { streaks, earned, checkpoint } = (await loadStreaks(db, [{ ...child, from }])).get(
+    childId,
+  ) ?? { ...buildAchievements([], child.streak_mode, today), checkpoint: null };
+  // A window that does not show the checkpoint day leaves the stored one in
+  // place, unless the write is on or before it.
+  const stored = child.checkpoint;
+  const next = checkpoint ?? (stored && changedOn > stored.through ? stored : null);
+  await db.query(
+    `UPDATE children
+     SET longest_streak = $1, streak_through = $2, streak_current = $3, streak_since = $4
+     WHERE id = $5`,
+    [
+      streaks.longest,
+      next?.through ?? null,
+      next?.current ?? 0,
+      next?.since ?? null,
+      childId,
+    ],
+  );
+
+  const badges = await loadBadges(db, childId);
+  const hasTotalBadge = badges.some(
+    (badge) => badge.id === totalMinutesBadge.id && badge.earned_on !== null,
+  );
+  if (!hasTotalBadge) {
+    // The first day the running total reaches the threshold.
+    const totalResult = await db.query(
+      `SELECT TO_CHAR(date, 'YYYY-MM-DD') AS date
+       FROM (
+         SELECT date, SUM(SUM(minutes)) OVER (ORDER BY date) AS total
+         FROM study_logs
+         WHERE child_id = $1 AND date <= $2
+         GROUP BY date
+       ) totals
+       WHERE total >= $3
+       ORDER BY date
+       LIMIT 1`,
+      [childId, today, totalMinutesBadge.minutes],
+    );
+    const reachedOn = totalResult.rows[0]?.date;
+    if (reachedOn) {
+      earned.push({ badge: totalMinutesBadge.id, earned_on: reachedOn });
+    }
+  }
+
+  const awardedResult = await db.query(
+    `INSERT INTO child_badges (child_id, badge, earned_on)
+     SELECT $1, e.badge, e.earned_on
+     FROM unnest($2::text[], $3::date[]) AS e(badge, earned_on)
+     ON CONFLICT (child_id, badge) DO NOTHING
+     RETURNING badge`,
+    [childId, earned.map((entry) => entry.badge), earned.map((entry) => entry.earned_on)],
+  );
+
+  return {
+    streaks,
+    badges: awardedResult.rowCount === 0 ? badges : await loadBadges(db, childId),
+    new_badges: awardedResult.rows.map((row) => String(row.badge)),
+  };
+};
+
+app.get("/api/v1/children/:childId/summary", async (req, res) => {
+  const { childId } = req.params;
+  const fromParam = req.query.from;
+  const toParam = req.query.to;
+
+  if (!isUuid(childId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (typeof fromParam !== "string" || !isValidDate(fromParam)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (typeof toParam !== "string" || !isValidDate(toParam)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  const fromDate = new Date(`${fromParam}T00:00:00Z`);
+  const toDate = new Date(`${toParam}T00:00:00Z`);
+  if (fromDate.getTime() > toDate.getTime()) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  const dayCount =
+    Math.floor((toDate.getTime() - fromDate.getTime()) / 86400000) + 1;
+  if (dayCount > 366) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const access = await authorizeChild(
+      pool,
+      req as AuthenticatedRequest,
+      childId,
+      "viewer",
+      "read",
+    );
+    if (!access.ok) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const totalResult = await pool.query(
+      `SELECT COALESCE(SUM(minutes), 0) AS total_minutes
+       FROM study_logs
+       WHERE child_id = $1 AND date BETWEEN $2 AND $3`,
+      [childId, fromParam, toParam],
+    );
+
+    const byDayResult = await pool.query(
+      `SELECT TO_CHAR(date, 'YYYY-MM-DD') AS date_key, SUM(minutes) AS minutes
+       FROM study_logs
+       WHERE child_id = $1 AND date BETWEEN $2 AND $3
+       GROUP BY date
+       ORDER BY date ASC`,
+      [childId, fromParam, toParam],
+    );
+
+    // Logs are grouped by the task version they were recorded against, so a later
+    // rename or subject change doesn't rewrite past totals. Subjects show their
+    // current name and color.
+    const bySubjectResult = await pool.query(
+      `SELECT sub.id AS subject_id, sub.name AS subject, sub.color, sub.icon, sub.sort_order,
+              SUM(s.minutes) AS minutes, ROUND(AVG(s.difficulty), 1) AS average_difficulty,
+              COUNT(s.difficulty) AS difficulty_count
+       FROM study_logs s
+       JOIN task_versions v ON v.task_id = s.task_id AND v.version = s.task_version
+       JOIN subjects sub ON sub.id = v.subject_id
+       WHERE s.child_id = $1 AND s.date BETWEEN $2 AND $3
+       GROUP BY sub.id
+       ORDER BY minutes DESC`,
+      [childId, fromParam, toParam],
+    );
+
+    // Quantities are summed per unit; target_quantity is the target summed over
+    // the logged days, so the progress compares like with like.
+    const bySubjectQuantityResult = await pool.query(
+      `SELECT v.subject_id, v.unit, SUM(s.quantity) AS quantity,
+              SUM(v.target_quantity) AS target_quantity
+       FROM study_logs s
+       JOIN task_versions v ON v.task_id = s.task_id AND v.version = s.task_version
+       WHERE s.child_id = $1 AND s.date BETWEEN $2 AND $3 AND v.unit IS NOT NULL
+       GROUP BY v.subject_id, v.unit
+       ORDER BY v.unit ASC`,
+      [childId, fromParam, toParam],
+    );
+
+    const byTaskResult = await pool.query(
+      `SELECT s.task_id AS task_id, v.name AS name, sub.id AS subject_id, sub.name AS subject,
+              sub.color AS color, v.unit, SUM(s.minutes) AS minutes,
+              SUM(s.quantity) AS quantity, SUM(v.target_quantity) AS target_quantity
+       FROM study_logs s
+       JOIN task_versions v ON v.task_id = s.task_id AND v.version = s.task_version
+       JOIN subjects sub ON sub.id = v.subject_id
+       WHERE s.child_id = $1 AND s.date BETWEEN $2 AND $3
+       GROUP BY s.task_id, v.name, sub.id, v.unit
+       ORDER BY minutes DESC`,
+      [childId, fromParam, toParam],
+    );
+
+    const planData = await loadPlanData(pool, childId, access.householdId, fromParam, toParam);
+    const planReport = buildPlanReport({ ...planData.input, from: fromParam, to: toParam });
+    const plan = {
+      ...planReport,
+      by_subject: planReport.by_subject.map(planData.withSubject),
+      by_task: planReport.by_task.map(planData.withSubject),
+    };
+
+    // Goals are measured for the week and month holding the end of the range.
+    const todayUtc = formatUtcDate(new Date());
+    const goals = await loadGoalProgress(
+      pool,
+      childId,
+      access.householdId,
+      toParam < todayUtc ? toParam : todayUtc,
+    );
+
+    const totalMinutes = Number(totalResult.rows[0]?.total_minutes ?? 0);
+
+    const byDay = byDayResult.rows.map((row) => ({
+      date: String(row.date_key),
+      minutes: Number(row.minutes),
+    }));
+
+    const toQuantity = (row: Record<string, unknown>) => {
+      const quantity = row.quantity === null ? null : Number(row.quantity);
+      const targetQuantity = row.target_quantity === null ? null : Number(row.target_quantity);
+      return {
+        quantity,
+        target_quantity: targetQuantity,
+        quantity_progress: quantityProgress(quantity, targetQuantity),
+      };
+    };
+
+    const bySubject = bySubjectResult.rows.map((row) => ({
+      subject_id: row.subject_id,
+      subject: row.subject,
+      color: row.color,
+      icon: row.icon,
+      sort_order: row.sort_order,
+      minutes: Number(row.minutes),
+      // Over the entries that were rated; null when none were.
+      average_difficulty: row.average_difficulty === null ? null : Number(row.average_difficulty),
+      difficulty_count: Number(row.difficulty_count),
+      quantities: bySubjectQuantityResult.rows
+        .filter((quantityRow) => quantityRow.subject_id === row.subject_id)
+        .map((quantityRow) => ({ unit: quantityRow.unit, ...toQuantity(quantityRow) })),
+    }));
+
+    const byTask = byTaskResult.rows.map((row) => ({
+      task_id: row.task_id,
+      name: row.name,
+      subject_id: row.subject_id,
+      subject: row.subject,
+      color: row.color,
+      minutes: Number(row.minutes),
+      unit: row.unit,
+      ...(row.unit === null
+        ? { quantity: null, target_quantity: null, quantity_progress: null }
+        : toQuantity(row)),
+    }));
+
+    return res.json({
+      from: fromParam,
+      to: toParam,
+      total_minutes: totalMinutes,
+      by_day: byDay,
+      by_subject: bySubject,
+      by_task: byTask,
+      plan,
+      goals,
+    });
+  } catch (error) {
+    console.error("get summary failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+const goalColumns = `g.id, g.subject_id, sub.name AS subject, g.period, g.metric, g.target,
+                     g.created_by, g.created_at, g.updated_at`;
+
+// Each goal with its progress over the week or month holding date.
+const loadGoalProgress = async (
+  db: Queryable,
+  childId: string,
+  householdId: string,
+  date: string,
+) => {
+  const goalsResult = await db.query(
+    `SELECT ${goalColumns}
+     FROM goals g
+     LEFT JOIN subjects sub ON sub.id = g.subject_id
+     WHERE g.child_id = $1
+     ORDER BY g.created_at ASC`,
+    [childId],
+  );
+  if (goalsResult.rows.length === 0) {
+    return [];
+  }
+
+  const week = goalPeriodRange("week", date);
+  const month = goalPeriodRange("month", date);
+  const from = week.from < month.from ? week.from : month.from;
+  const to = week.to > month.to ? week.to : month.to;
+  const planData = await loadPlanData(db, childId, householdId, from, to);
+  const reports = {
+    week: buildPlanReport({ ...planData.input, ...week }),
+    month: buildPlanReport({ ...planData.input, ...month }),
+  };
+
+  return goalsResult.rows.map((goal) => ({
+    ...goal,
+    ...buildGoalProgress(
+      goal,
+      goal.period === "week" ? week : month,
+      goal.period === "week" ? reports.week : reports.month,
+      planData.input.today,
+    ),
+  }));
+};
+
+// Body: subject_id (null or omitted for all subjects), period, metric, target.
+const parseGoalBody = (body: Record<string, unknown>) => {
+  const { subject_id, period, metric, target } = body;
+  if (subject_id !== undefined && subject_id !== null) {
+    if (typeof subject_id !== "string" || !isUuid(subject_id)) {
+      return null;
+    }
+  }
+  if (!isGoalPeriod(period) || !isGoalMetric(metric) || !isValidGoalTarget(metric, target)) {
+    return null;
+  }
+  return { subject_id: subject_id ?? null, period, metric, target };
+};
+
+const isHouseholdSubject = async (db: Queryable, householdId: string, subjectId: string) => {
+  const result = await db.query("SELECT 1 FROM subjects WHERE id = $1 AND household_id = $2", [
+    subjectId,
+    householdId,
+  ]);
+  return (result.rowCount ?? 0) > 0;
+};
+
+// ?date picks the week and month to measure (default: today).
+app.get("/api/v1/children/:childId/goals", async (req, res) => {
+  const { childId } = req.params;
+  const dateParam = req.query.date;
+
+  if (!isUuid(childId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (dateParam !== undefined && (typeof dateParam !== "string" || !isValidDate(dateParam))) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const access = await authorizeChild(
+      pool,
+      req as AuthenticatedRequest,
+      childId,
+      "viewer",
+      "daily_view",
+    );
+    if (!access.ok) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const goals = await loadGoalProgress(
+      pool,
+      childId,
+      access.householdId,
+      dateParam ?? formatUtcDate(new Date()),
+    );
+    return res.json(goals);
+  } catch (error) {
+    console.error("list goals failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+app.post("/api/v1/children/:childId/goals", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { childId } = req.params;
+
+  if (!isUuid(childId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  const goal = parseGoalBody(req.body ?? {});
+  if (!goal) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const access = await authorizeChild(pool, req as AuthenticatedRequest, childId, "editor");
+    if (!access.ok) {
+      return res.status(access.status).json({ error: access.error });
+    }
+    if (goal.subject_id && !(await isHouseholdSubject(pool, access.householdId, goal.subject_id))) {
+      return res.status(400).json({ error: "invalid_request" });
+    }
+
+    const result = await pool.query(
+      `WITH g AS (
+         INSERT INTO goals (child_id, subject_id, period, metric, target, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING *
+       )
+       SELECT ${goalColumns}
+       FROM g
+       LEFT JOIN subjects sub ON sub.id = g.subject_id`,
+      [childId, goal.subject_id, goal.period, goal.metric, goal.target, userId],
+    );
+    return res.status(201).json(result.rows[0]);
+  } catch (error) {
+    console.error("create goal failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+app.put("/api/v1/children/:childId/goals/:goalId", async (req, res) => {
+  const { childId, goalId } = req.params;
+
+  if (!isUuid(childId) || !isUuid(goalId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  const goal = parseGoalBody(req.body ?? {});
+  if (!goal) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const access = await authorizeChild(pool, req as AuthenticatedRequest, childId, "editor");
+    if (!access.ok) {
+      return res.status(access.status).json({ error: access.error });
+    }
+    if (goal.subject_id && !(await isHouseholdSubject(pool, access.householdId, goal.subject_id))) {
+      return res.status(400).json({ error: "invalid_request" });
+    }
+
+    const result = await pool.query(
+      `WITH g AS (
+         UPDATE goals
+         SET subject_id = $1, period = $2, metric = $3, target = $4, updated_at = now()
+         WHERE id = $5 AND child_id = $6
+         RETURNING *
+       )
+       SELECT ${goalColumns}
+       FROM g
+       LEFT JOIN subjects sub ON sub.id = g.subject_id`,
+      [goal.subject_id, goal.period, goal.metric, goal.target, goalId, childId],
+    );
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: "not_found" });
+    }
+    return res.json(result.rows[0]);
+  } catch (error) {
+    console.error("update goal failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+app.delete("/api/v1/children/:childId/goals/:goalId", async (req, res) => {
+  const { childId, goalId } = req.params;
+
+  if (!isUuid(childId) || !isUuid(goalId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const access = await authorizeChild(pool, req as AuthenticatedRequest, childId, "editor");
+    if (!access.ok) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const result = await pool.query("DELETE FROM goals WHERE id = $1 AND child_id = $2", [
+      goalId,
+      childId,
+    ]);
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: "not_found" });
+    }
+    return res.status(204).send();
+  } catch (error) {
+    console.error("delete goal failed", error);
     return res.status(500).json({ error: "internal server error" });
   }
 });
 
-app.patch("/api/v1/children/:childId", async (req, res) => {
-  const { userId } = req as AuthenticatedRequest;
+// ?week=YYYY-Www (ISO week). week_start=sunday moves the week one day earlier.
+app.get("/api/v1/children/:childId/weekly-report", async (req, res) => {
   const { childId } = req.params;
-  const { name, grade, is_active } = req.body ?? {};
+  const weekParam = req.query.week;
+  const weekStartParam = req.query.week_start ?? "monday";
 
   if (!isUuid(childId)) {
     return res.status(400).json({ error: "invalid_request" });
   }
-
-  const fields: string[] = [];
-  const values: unknown[] = [];
-  let index = 1;
-
-  if (name !== undefined) {
-    if (typeof name !== "string" || !name.trim()) {
-      return res.status(400).json({ error: "invalid_request" });
-    }
-    fields.push(`name = $${index++}`);
-    values.push(name.trim());
+  if (weekStartParam !== "monday" && weekStartParam !== "sunday") {
+    return res.status(400).json({ error: "invalid_request" });
   }
-
-  if (grade !== undefined) {
-    if (typeof grade !== "string") {
-      return res.status(400).json({ error: "invalid_request" });
-    }
-    fields.push(`grade = $${index++}`);
-    values.push(grade);
+  const week = typeof weekParam === "string" ? parseIsoWeek(weekParam, weekStartParam) : null;
+  if (!week) {
+    return res.status(400).json({ error: "invalid_request" });
   }
 
-  if (is_active !== undefined) {
-    if (typeof is_active !== "boolean") {
-      return res.status(400).json({ error: "invalid_request" });
+  try {
+    const access = await authorizeChild(
+      pool,
+      req as AuthenticatedRequest,
+      childId,
+      "viewer",
+      "read",
+    );
+    if (!access.ok) {
+      return res.status(access.status).json({ error: access.error });
     }
-    fields.push(`is_active = $${index++}`);
-    values.push(is_active);
+
+    // The four weeks before are loaded too, for the comparison.
+    const planData = await loadPlanData(
+      pool,
+      childId,
+      access.householdId,
+      addDays(week.from, -28),
+      week.to,
+    );
+    const report = buildWeeklyReport(planData.input, week.from, week.to);
+    return res.json({
+      week: weekParam,
+      week_start: weekStartParam,
+      ...report,
+      by_subject: report.by_subject.map(planData.withSubject),
+      by_task: report.by_task.map(planData.withSubject),
+    });
+  } catch (error) {
+    console.error("get weekly report failed", error);
+    return res.status(500).json({ error: "internal server error" });
   }
+});
 
-  if (fields.length === 0) {
+app.get("/api/v1/children/:childId/achievements", async (req, res) => {
+  const { childId } = req.params;
+
+  if (!isUuid(childId)) {
     return res.status(400).json({ error: "invalid_request" });
   }
 
-  fields.push("updated_at = now()");
-  values.push(childId, userId);
-
   try {
-    const result = await pool.query(
-      `UPDATE children SET ${fields.join(", ")} WHERE id = $${index++} AND user_id = $${index} RETURNING id, name, grade, is_active`,
-      values,
+    const access = await authorizeChild(
+      pool,
+      req as AuthenticatedRequest,
+      childId,
+      "viewer",
+      "daily_view",
     );
-
-    if (result.rowCount === 0) {
-      return res.status(404).json({ error: "not_found" });
+    if (!access.ok) {
+      return res.status(access.status).json({ error: access.error });
     }
 
-    return res.json(result.rows[0]);
+    // Read only: badges are awarded when logs are written.
+    const today = formatUtcDate(new Date());
+    const child = await loadStreakChild(pool, childId, access.householdId);
+    const { streaks } =
+      (await loadStreaks(pool, [{ ...child, from: recentHistoryFrom(today) }])).get(childId) ??
+      buildAchievements([], child.streak_mode, today);
+    return res.json({ child_id: childId, streaks, badges: await loadBadges(pool, childId) });
   } catch (error) {
-    console.error("update child failed", error);
+    console.error("get achievements failed", error);
     return res.status(500).json({ error: "internal server error" });
   }
 });
 
-app.put("/api/v1/children/:id", async (req, res) => {
-  const { userId } = req as AuthenticatedRequest;
-  const { id } = req.params;
-  const { name, grade } = req.body ?? {};
+// Balance and ledger, newest first. from/to filter on the day an entry was made.
+app.get("/api/v1/children/:childId/points", async (req, res) => {
+  const { childId } = req.params;
+  const fromParam = req.query.from;
+  const toParam = req.query.to;
 
-  if (!isUuid(id)) {
+  if (!isUuid(childId)) {
     return res.status(400).json({ error: "invalid_request" });
   }
-  if (typeof name !== "string" || !name.trim()) {
+  if (fromParam !== undefined && (typeof fromParam !== "string" || !isValidDate(fromParam))) {
     return res.status(400).json({ error: "invalid_request" });
   }
-  if (
-    grade !== undefined &&
-    grade !== null &&
-    typeof grade !== "string"
-  ) {
+  if (toParam !== undefined && (typeof toParam !== "string" || !isValidDate(toParam))) {
     return res.status(400).json({ error: "invalid_request" });
   }
 
-  const normalizedGrade =
-    grade === undefined || grade === null || grade.trim() === ""
-      ? null
-      : grade.trim();
-
   try {
-    const result = await pool.query(
-      `UPDATE children
-       SET name = $1, grade = $2, updated_at = now()
-       WHERE id = $3 AND user_id = $4
-       RETURNING id, name, grade, is_active`,
-      [name.trim(), normalizedGrade, id, userId],
+    const access = await authorizeChild(
+      pool,
+      req as AuthenticatedRequest,
+      childId,
+      "viewer",
+      "daily_view",
     );
-
-    if (result.rowCount === 0) {
-      return res.status(404).json({ error: "not_found" });
+    if (!access.ok) {
+      return res.status(access.status).json({ error: access.error });
     }
 
-    return res.json(result.rows[0]);
+    const result = await pool.query(
+      `SELECT l.id, l.points, l.reason, TO_CHAR(l.date, 'YYYY-MM-DD') AS date,
+              l.task_id, t.name AS task_name, l.redemption_id, r.name AS reward_name,
+              l.created_by, l.created_at
+       FROM point_ledger l
+       LEFT JOIN tasks t ON t.id = l.task_id
+       LEFT JOIN reward_redemptions rr ON rr.id = l.redemption_id
+       LEFT JOIN rewards r ON r.id = rr.reward_id
+       WHERE l.child_id = $1
+         AND ($2::date IS NULL OR (l.created_at AT TIME ZONE 'UTC')::date >= $2::date)
+         AND ($3::date IS NULL OR (l.created_at AT TIME ZONE 'UTC')::date <= $3::date)
+       ORDER BY l.created_at DESC`,
+      [childId, fromParam ?? null, toParam ?? null],
+    );
+    return res.json({
+      child_id: childId,
+      balance: await loadPointBalance(pool, childId),
+      entries: result.rows,
+    });
   } catch (error) {
-    console.error("update child (put) failed", error);
+    console.error("get points failed", error);
     return res.status(500).json({ error: "internal server error" });
   }
 });
 
-app.delete("/api/v1/children/:childId", async (req, res) => {
-  const { userId } = req as AuthenticatedRequest;
+// The household's active rewards as the child sees them.
+app.get("/api/v1/children/:childId/rewards", async (req, res) => {
   const { childId } = req.params;
 
   if (!isUuid(childId)) {
@@ -686,271 +5323,231 @@ app.delete("/api/v1/children/:childId", async (req, res) => {
   }
 
   try {
-    const result = await pool.query(
-      "UPDATE children SET is_active = false, updated_at = now() WHERE id = $1 AND user_id = $2",
-      [childId, userId],
+    const access = await authorizeChild(
+      pool,
+      req as AuthenticatedRequest,
+      childId,
+      "viewer",
+      "daily_view",
     );
-
-    if (result.rowCount === 0) {
-      return res.status(404).json({ error: "not_found" });
+    if (!access.ok) {
+      return res.status(access.status).json({ error: access.error });
     }
 
-    return res.status(204).send();
+    const balance = await loadPointBalance(pool, childId);
+    const result = await pool.query(
+      `SELECT id, name, cost
+       FROM rewards
+       WHERE household_id = $1 AND is_active = true
+       ORDER BY cost ASC, created_at ASC`,
+      [access.householdId],
+    );
+    return res.json({
+      balance,
+      rewards: result.rows.map((reward) => ({ ...reward, affordable: reward.cost <= balance })),
+    });
   } catch (error) {
-    console.error("delete child failed", error);
+    console.error("list child rewards failed", error);
     return res.status(500).json({ error: "internal server error" });
   }
 });
 
-app.get("/api/v1/children/:childId/tasks", async (req, res) => {
-  const { userId } = req as AuthenticatedRequest;
+app.get("/api/v1/children/:childId/redemptions", async (req, res) => {
   const { childId } = req.params;
-  const archivedParam = req.query.archived;
+  const statusParam = req.query.status;
 
   if (!isUuid(childId)) {
     return res.status(400).json({ error: "invalid_request" });
   }
-
-  let archived = false;
-  if (archivedParam !== undefined) {
-    if (archivedParam === "true") {
-      archived = true;
-    } else if (archivedParam === "false") {
-      archived = false;
-    } else {
-      return res.status(400).json({ error: "invalid_request" });
-    }
+  if (
+    statusParam !== undefined &&
+    statusParam !== "pending" &&
+    statusParam !== "approved" &&
+    statusParam !== "rejected"
+  ) {
+    return res.status(400).json({ error: "invalid_request" });
   }
 
   try {
-    const childResult = await pool.query(
-      "SELECT 1 FROM children WHERE id = $1 AND user_id = $2",
-      [childId, userId],
+    const access = await authorizeChild(
+      pool,
+      req as AuthenticatedRequest,
+      childId,
+      "viewer",
+      "daily_view",
     );
-    if (childResult.rowCount === 0) {
-      return res.status(404).json({ error: "not_found" });
+    if (!access.ok) {
+      return res.status(access.status).json({ error: access.error });
     }
 
     const result = await pool.query(
-      `SELECT id,
-              name,
-              description,
-              subject,
-              default_minutes,
-              days_mask,
-              is_archived,
-              TO_CHAR(start_date, 'YYYY-MM-DD') AS start_date,
-              TO_CHAR(end_date, 'YYYY-MM-DD') AS end_date
-       FROM tasks
-       WHERE child_id = $1 AND user_id = $2 AND is_archived = $3
-       ORDER BY sort_order ASC`,
-      [childId, userId, archived],
+      `SELECT rr.id, rr.reward_id, r.name AS reward_name, rr.cost, rr.status, rr.requested_by,
+              rr.decided_by, rr.decided_at, rr.created_at
+       FROM reward_redemptions rr
+       JOIN rewards r ON r.id = rr.reward_id
+       WHERE rr.child_id = $1 AND ($2::text IS NULL OR rr.status = $2)
+       ORDER BY rr.created_at DESC`,
+      [childId, statusParam ?? null],
     );
     return res.json(result.rows);
   } catch (error) {
-    console.error("list tasks failed", error);
+    console.error("list redemptions failed", error);
     return res.status(500).json({ error: "internal server error" });
   }
 });
 
-app.get("/api/v1/children/:childId/daily-view", async (req, res) => {
+// The cost is taken from the balance right away, so pending requests can't
+// spend the same points twice; a rejection gives it back.
+app.post("/api/v1/children/:childId/redemptions", limitBy("daily_write", byUser));
+app.post("/api/v1/children/:childId/redemptions", async (req, res) => {
   const { userId } = req as AuthenticatedRequest;
   const { childId } = req.params;
-  const dateParam = req.query.date;
+  const { reward_id } = req.body ?? {};
 
   if (!isUuid(childId)) {
     return res.status(400).json({ error: "invalid_request" });
   }
-  if (typeof dateParam !== "string" || !isValidDate(dateParam)) {
+  if (typeof reward_id !== "string" || !isUuid(reward_id)) {
     return res.status(400).json({ error: "invalid_request" });
   }
 
-  const { label: weekday, mask: todayMask } = weekdayInfo(dateParam);
-
+  const client = await pool.connect();
   try {
-    const childResult = await pool.query(
-      "SELECT 1 FROM children WHERE id = $1 AND user_id = $2",
-      [childId, userId],
+    await client.query("BEGIN");
+
+    const access = await authorizeChild(
+      client,
+      req as AuthenticatedRequest,
+      childId,
+      "editor",
+      "redeem",
     );
-    if (childResult.rowCount === 0) {
-      return res.status(404).json({ error: "not_found" });
+    if (!access.ok) {
+      await client.query("ROLLBACK");
+      return res.status(access.status).json({ error: access.error });
     }
 
-    const tasksResult = await pool.query(
-      `SELECT id, name, subject, default_minutes, days_mask
-       FROM tasks
-       WHERE child_id = $1
-         AND user_id = $2
-         AND is_archived = false
-         AND (days_mask & $3) != 0
-         AND (start_date IS NULL OR start_date <= $4::date)
-         AND (end_date IS NULL OR end_date >= $4::date)
-       ORDER BY sort_order ASC`,
-      [childId, userId, todayMask, dateParam],
-    );
+    await client.query("SELECT 1 FROM children WHERE id = $1 FOR UPDATE", [childId]);
 
-    const logsResult = await pool.query(
-      "SELECT task_id, minutes FROM study_logs WHERE child_id = $1 AND user_id = $2 AND date = $3",
-      [childId, userId, dateParam],
+    const rewardResult = await client.query(
+      `SELECT id, name, cost
+       FROM rewards
+       WHERE id = $1 AND household_id = $2 AND is_active = true`,
+      [reward_id, access.householdId],
     );
-
-    const logByTaskId = new Map<string, number>();
-    for (const row of logsResult.rows) {
-      logByTaskId.set(row.task_id, row.minutes);
+    const reward = rewardResult.rows[0];
+    if (!reward) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "not_found" });
+    }
+    const balance = await loadPointBalance(client, childId);
+    if (balance < reward.cost) {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: "insufficient_points" });
     }
 
-    const tasks = tasksResult.rows.map((task) => {
-      const loggedMinutes = logByTaskId.get(task.id);
-      if (loggedMinutes !== undefined) {
-        return {
-          task_id: task.id,
-          name: task.name,
-          subject: task.subject,
-          default_minutes: task.default_minutes,
-          days_mask: task.days_mask,
-          is_done: true,
-          minutes: loggedMinutes,
-        };
-      }
-      return {
-        task_id: task.id,
-        name: task.name,
-        subject: task.subject,
-        default_minutes: task.default_minutes,
-        days_mask: task.days_mask,
-        is_done: false,
-        minutes: task.default_minutes,
-      };
-    });
+    const result = await client.query(
+      `INSERT INTO reward_redemptions (child_id, reward_id, cost, requested_by)
+       VALUES ($1, $2, $3, $4)
+       RETURNING id, reward_id, cost, status, requested_by, decided_by, decided_at, created_at`,
+      [childId, reward.id, reward.cost, userId],
+    );
+    const redemption = result.rows[0];
+    await client.query(
+      `INSERT INTO point_ledger (child_id, points, reason, redemption_id, created_by)
+       VALUES ($1, $2, 'redemption', $3, $4)`,
+      [childId, -reward.cost, redemption.id, userId],
+    );
 
-    return res.json({ date: dateParam, weekday, tasks });
+    await client.query("COMMIT");
+    return res.status(201).json({
+      ...redemption,
+      reward_name: reward.name,
+      balance: balance - reward.cost,
+    });
   } catch (error) {
-    console.error("get daily view failed", error);
+    await client.query("ROLLBACK");
+    console.error("create redemption failed", error);
     return res.status(500).json({ error: "internal server error" });
+  } finally {
+    client.release();
   }
 });
 
-app.get("/api/v1/children/:childId/calendar-summary", async (req, res) => {
+// Body: { status: "approved" | "rejected" }. Only pending requests can be decided.
+app.patch("/api/v1/children/:childId/redemptions/:redemptionId", async (req, res) => {
   const { userId } = req as AuthenticatedRequest;
-  const { childId } = req.params;
-  const fromParam = req.query.from;
-  const toParam = req.query.to;
-
-  if (!isUuid(childId)) {
-    return res.status(400).json({ error: "invalid_request" });
-  }
-  if (typeof fromParam !== "string" || !isValidDate(fromParam)) {
-    return res.status(400).json({ error: "invalid_request" });
-  }
-  if (typeof toParam !== "string" || !isValidDate(toParam)) {
-    return res.status(400).json({ error: "invalid_request" });
-  }
+  const { childId, redemptionId } = req.params;
+  const { status } = req.body ?? {};
 
-  const fromDate = new Date(`${fromParam}T00:00:00Z`);
-  const toDate = new Date(`${toParam}T00:00:00Z`);
-  if (fromDate.getTime() > toDate.getTime()) {
+  if (!isUuid(childId) || !isUuid(redemptionId)) {
     return res.status(400).json({ error: "invalid_request" });
   }
-
-  const dayCount =
-    Math.floor((toDate.getTime() - fromDate.getTime()) / 86400000) + 1;
-  if (dayCount > 62) {
+  if (status !== "approved" && status !== "rejected") {
     return res.status(400).json({ error: "invalid_request" });
   }
 
+  const client = await pool.connect();
   try {
-    const childResult = await pool.query(
-      "SELECT 1 FROM children WHERE id = $1 AND user_id = $2",
-      [childId, userId],
-    );
-    if (childResult.rowCount === 0) {
-      return res.status(404).json({ error: "not_found" });
+    await client.query("BEGIN");
+
+    const access = await authorizeChild(client, req as AuthenticatedRequest, childId, "editor");
+    if (!access.ok) {
+      await client.query("ROLLBACK");
+      return res.status(access.status).json({ error: access.error });
     }
 
-    const tasksResult = await pool.query(
-      `SELECT id, days_mask, start_date, end_date
-       FROM tasks
-       WHERE child_id = $1 AND user_id = $2 AND is_archived = false`,
-      [childId, userId],
-    );
+    await client.query("SELECT 1 FROM children WHERE id = $1 FOR UPDATE", [childId]);
 
-    const logsResult = await pool.query(
-      `SELECT task_id, TO_CHAR(date, 'YYYY-MM-DD') AS date_key
-       FROM study_logs
-       WHERE child_id = $1 AND user_id = $2 AND date BETWEEN $3 AND $4`,
-      [childId, userId, fromParam, toParam],
+    const current = await client.query(
+      "SELECT status FROM reward_redemptions WHERE id = $1 AND child_id = $2",
+      [redemptionId, childId],
     );
-
-    const logsByDate = new Map<string, Set<string>>();
-    for (const row of logsResult.rows) {
-      const dateKey = String(row.date_key);
-      const set = logsByDate.get(dateKey) ?? new Set<string>();
-      set.add(row.task_id);
-      logsByDate.set(dateKey, set);
+    if (current.rowCount === 0) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "not_found" });
+    }
+    if (current.rows[0]?.status !== "pending") {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: "not_pending" });
     }
 
-    const todayUtc = formatUtcDate(new Date());
-    const days: Array<{ date: string; status: string; total: number; done: number }> = [];
-
-    for (let i = 0; i < dayCount; i += 1) {
-      const current = new Date(fromDate);
-      current.setUTCDate(fromDate.getUTCDate() + i);
-      const dateKey = current.toISOString().slice(0, 10);
-      const todayMask = weekdayMaskSunStart(dateKey);
-
-      const targetTasks = tasksResult.rows.filter((task) => {
-        if ((task.days_mask & todayMask) === 0) {
-          return false;
-        }
-        if (task.start_date && String(task.start_date).slice(0, 10) > dateKey) {
-          return false;
-        }
-        if (task.end_date && String(task.end_date).slice(0, 10) < dateKey) {
-          return false;
-        }
-        return true;
-      });
-      const total = targetTasks.length;
-
-      let done = 0;
-      const doneSet = logsByDate.get(dateKey);
-      if (doneSet && total > 0) {
-        for (const task of targetTasks) {
-          if (doneSet.has(task.id)) {
-            done += 1;
-          }
-        }
-      }
-
-      let status = "red";
-      if (dateKey > todayUtc) {
-        status = "white";
-      } else if (total === 0) {
-        status = "white";
-      } else if (done === total) {
-        status = "green";
-      } else if (done > 0) {
-        status = "yellow";
-      }
-
-      days.push({ date: dateKey, status, total, done });
+    const result = await client.query(
+      `UPDATE reward_redemptions
+       SET status = $1, decided_by = $2, decided_at = now()
+       WHERE id = $3
+       RETURNING id, reward_id, cost, status, requested_by, decided_by, decided_at, created_at`,
+      [status, userId, redemptionId],
+    );
+    const redemption = result.rows[0];
+    if (status === "rejected") {
+      await client.query(
+        `INSERT INTO point_ledger (child_id, points, reason, redemption_id, created_by)
+         VALUES ($1, $2, 'refund', $3, $4)`,
+        [childId, redemption.cost, redemptionId, userId],
+      );
     }
 
-    return res.json({ from: fromParam, to: toParam, days });
+    await client.query("COMMIT");
+    return res.json({ ...redemption, balance: await loadPointBalance(pool, childId) });
   } catch (error) {
-    console.error("get calendar summary failed", error);
+    await client.query("ROLLBACK");
+    console.error("decide redemption failed", error);
     return res.status(500).json({ error: "internal server error" });
+  } finally {
+    client.release();
   }
 });
 
-app.get("/api/v1/children/:childId/summary", async (req, res) => {
+// Every active child of the user side by side. Each query covers all children
+// at once; the per-child shape is assembled from the result sets.
+app.get("/api/v1/dashboard", async (req, res) => {
   const { userId } = req as AuthenticatedRequest;
-  const { childId } = req.params;
   const fromParam = req.query.from;
   const toParam = req.query.to;
 
-  if (!isUuid(childId)) {
-    return res.status(400).json({ error: "invalid_request" });
+  if (!hasScope(req as AuthenticatedRequest, "read")) {
+    return res.status(403).json({ error: "forbidden" });
   }
   if (typeof fromParam !== "string" || !isValidDate(fromParam)) {
     return res.status(400).json({ error: "invalid_request" });
@@ -967,90 +5564,94 @@ app.get("/api/v1/children/:childId/summary", async (req, res) => {
 
   const dayCount =
     Math.floor((toDate.getTime() - fromDate.getTime()) / 86400000) + 1;
-  if (dayCount > 366) {
+  if (dayCount > 62) {
     return res.status(400).json({ error: "invalid_request" });
   }
 
   try {
-    const childResult = await pool.query(
-      "SELECT 1 FROM children WHERE id = $1 AND user_id = $2",
-      [childId, userId],
+    const childrenResult = await pool.query(
+      `SELECT c.id, c.name, c.grade, c.household_id, m.role, c.streak_mode, c.longest_streak,
+              c.streak_current,
+              TO_CHAR(c.streak_through, 'YYYY-MM-DD') AS streak_through,
+              TO_CHAR(c.streak_since, 'YYYY-MM-DD') AS streak_since
+       FROM children c
+       JOIN household_members m ON m.household_id = c.household_id
+       WHERE m.user_id = $1 AND c.is_active = true
+       ORDER BY c.created_at ASC`,
+      [userId],
     );
-    if (childResult.rowCount === 0) {
-      return res.status(404).json({ error: "not_found" });
+    const childIds = childrenResult.rows.map((child) => child.id);
+    if (childIds.length === 0) {
+      return res.json({ from: fromParam, to: toParam, children: [] });
     }
 
-    const totalResult = await pool.query(
-      `SELECT COALESCE(SUM(minutes), 0) AS total_minutes
-       FROM study_logs
-       WHERE child_id = $1 AND user_id = $2 AND date BETWEEN $3 AND $4`,
-      [childId, userId, fromParam, toParam],
-    );
-
-    const byDayResult = await pool.query(
-      `SELECT TO_CHAR(date, 'YYYY-MM-DD') AS date_key, SUM(minutes) AS minutes
-       FROM study_logs
-       WHERE child_id = $1 AND user_id = $2 AND date BETWEEN $3 AND $4
-       GROUP BY date
-       ORDER BY date ASC`,
-      [childId, userId, fromParam, toParam],
-    );
-
-    const bySubjectResult = await pool.query(
-      `SELECT t.subject AS subject, SUM(s.minutes) AS minutes
-       FROM study_logs s
-       JOIN tasks t ON t.id = s.task_id
-       WHERE s.child_id = $1 AND s.user_id = $2 AND s.date BETWEEN $3 AND $4
-       GROUP BY t.subject
-       ORDER BY minutes DESC`,
-      [childId, userId, fromParam, toParam],
-    );
-
-    const byTaskResult = await pool.query(
-      `SELECT s.task_id AS task_id, t.name AS name, t.subject AS subject, SUM(s.minutes) AS minutes
-       FROM study_logs s
-       JOIN tasks t ON t.id = s.task_id
-       WHERE s.child_id = $1 AND s.user_id = $2 AND s.date BETWEEN $3 AND $4
-       GROUP BY s.task_id, t.name, t.subject
-       ORDER BY minutes DESC`,
-      [childId, userId, fromParam, toParam],
+    const inputsByChildId = await loadChildrenPlanInputs(
+      pool,
+      childrenResult.rows,
+      fromParam,
+      toParam,
     );
 
-    const totalMinutes = Number(totalResult.rows[0]?.total_minutes ?? 0);
-
-    const byDay = byDayResult.rows.map((row) => ({
-      date: String(row.date_key),
-      minutes: Number(row.minutes),
-    }));
-
-    const bySubject = bySubjectResult.rows.map((row) => ({
-      subject: row.subject,
-      minutes: Number(row.minutes),
-    }));
+    // Same grouping as summary: by the subject of the logged task version.
+    const bySubjectResult = await pool.query(
+      `SELECT s.child_id, sub.id AS subject_id, sub.name AS subject, sub.color,
+              SUM(s.minutes) AS minutes
+       FROM study_logs s
+       JOIN task_versions v ON v.task_id = s.task_id AND v.version = s.task_version
+       JOIN subjects sub ON sub.id = v.subject_id
+       WHERE s.child_id = ANY($1::uuid[]) AND s.date BETWEEN $2 AND $3
+       GROUP BY s.child_id, sub.id
+       ORDER BY minutes DESC`,
+      [childIds, fromParam, toParam],
+    );
 
-    const byTask = byTaskResult.rows.map((row) => ({
-      task_id: row.task_id,
-      name: row.name,
-      subject: row.subject,
-      minutes: Number(row.minutes),
-    }));
+    // Counted like /achievements, honouring each child's streak_mode and off days.
+    const todayUtc = formatUtcDate(new Date());
+    const streaksByChildId = await loadStreaks(
+      pool,
+      childrenResult.rows.map((child) => ({
+        id: child.id,
+        household_id: child.household_id,
+        streak_mode: isStreakMode(child.streak_mode) ? child.streak_mode : "logged",
+        longest_streak: child.longest_streak,
+        checkpoint: readStreakCheckpoint(child),
+        from: recentHistoryFrom(todayUtc),
+      })),
+    );
 
-    return res.json({
-      from: fromParam,
-      to: toParam,
-      total_minutes: totalMinutes,
-      by_day: byDay,
-      by_subject: bySubject,
-      by_task: byTask,
+    const children = childrenResult.rows.map((child) => {
+      // The same days the child's calendar-summary shows.
+      const input = inputsByChildId.get(child.id);
+      const days = input ? buildCalendarDays(input, fromParam, toParam) : [];
+
+      return {
+        child_id: child.id,
+        name: child.name,
+        grade: child.grade,
+        household_id: child.household_id,
+        role: child.role,
+        total_minutes: days.reduce((sum, day) => sum + day.minutes, 0),
+        current_streak: streaksByChildId.get(child.id)?.streaks.current ?? 0,
+        days,
+        by_subject: bySubjectResult.rows
+          .filter((row) => row.child_id === child.id)
+          .map((row) => ({
+            subject_id: row.subject_id,
+            subject: row.subject,
+            color: row.color,
+            minutes: Number(row.minutes),
+          })),
+      };
     });
+
+    return res.json({ from: fromParam, to: toParam, children });
   } catch (error) {
-    console.error("get summary failed", error);
+    console.error("get dashboard failed", error);
     return res.status(500).json({ error: "internal server error" });
   }
 });
 
 app.get("/api/v1/children/:childId/daily", async (req, res) => {
-  const { userId } = req as AuthenticatedRequest;
   const { childId } = req.params;
   const dateParam = req.query.date;
 
@@ -1062,20 +5663,23 @@ app.get("/api/v1/children/:childId/daily", async (req, res) => {
   }
 
   try {
-    const childResult = await pool.query(
-      "SELECT 1 FROM children WHERE id = $1 AND user_id = $2",
-      [childId, userId],
+    const access = await authorizeChild(
+      pool,
+      req as AuthenticatedRequest,
+      childId,
+      "viewer",
+      "daily_view",
     );
-    if (childResult.rowCount === 0) {
-      return res.status(404).json({ error: "not_found" });
+    if (!access.ok) {
+      return res.status(access.status).json({ error: access.error });
     }
 
     const result = await pool.query(
-      `SELECT task_id, minutes
+      `SELECT task_id, minutes, quantity, note, difficulty, mood, recorded_by
        FROM study_logs
-       WHERE child_id = $1 AND user_id = $2 AND date = $3
+       WHERE child_id = $1 AND date = $2
        ORDER BY created_at ASC`,
-      [childId, userId, dateParam],
+      [childId, dateParam],
     );
 
     return res.json({ date: dateParam, items: result.rows });
@@ -1085,6 +5689,45 @@ app.get("/api/v1/children/:childId/daily", async (req, res) => {
   }
 });
 
+// Limiters on parameterised routes are registered as separate routes so the
+// handlers below keep their typed req.params.
+type LogTask = {
+  version: number;
+  unit: string | null;
+  target_quantity: number | null;
+  point_mode: PointMode | null;
+  points: number | null;
+};
+
+// What a new or changed study log needs from its task, keyed by task id.
+// Tasks that don't belong to the child are left out.
+const loadLogTasks = async (
+  db: Queryable,
+  childId: string,
+  taskIds: string[],
+): Promise<Map<string, LogTask>> => {
+  const tasksById = new Map<string, LogTask>();
+  if (taskIds.length === 0) {
+    return tasksById;
+  }
+  // A point rule on the task wins over one on its subject.
+  const result = await db.query(
+    `SELECT t.id, t.version, t.unit, t.target_quantity,
+            COALESCE(tr.mode, sr.mode) AS point_mode,
+            COALESCE(tr.points, sr.points) AS points
+     FROM tasks t
+     LEFT JOIN point_rules tr ON tr.task_id = t.id
+     LEFT JOIN point_rules sr ON sr.subject_id = t.subject_id
+     WHERE t.child_id = $1 AND t.id = ANY($2::uuid[])`,
+    [childId, taskIds],
+  );
+  for (const row of result.rows) {
+    tasksById.set(row.id, row);
+  }
+  return tasksById;
+};
+
+app.put("/api/v1/children/:childId/daily", limitBy("daily_write", byUser));
 app.put("/api/v1/children/:childId/daily", async (req, res) => {
   const { userId } = req as AuthenticatedRequest;
   const { childId } = req.params;
@@ -1121,57 +5764,166 @@ app.put("/api/v1/children/:childId/daily", async (req, res) => {
     if (item.minutes < 1) {
       return res.status(400).json({ error: "invalid_request" });
     }
+    if (
+      item.quantity !== undefined &&
+      item.quantity !== null &&
+      (typeof item.quantity !== "number" || !Number.isInteger(item.quantity) || item.quantity < 0)
+    ) {
+      return res.status(400).json({ error: "invalid_request" });
+    }
+    if (
+      item.note !== undefined &&
+      item.note !== null &&
+      (typeof item.note !== "string" || item.note.length > maxLogNoteLength)
+    ) {
+      return res.status(400).json({ error: "invalid_request" });
+    }
+    if (
+      item.difficulty !== undefined &&
+      item.difficulty !== null &&
+      (typeof item.difficulty !== "number" ||
+        !Number.isInteger(item.difficulty) ||
+        item.difficulty < 1 ||
+        item.difficulty > 5)
+    ) {
+      return res.status(400).json({ error: "invalid_request" });
+    }
+    if (item.mood !== undefined && item.mood !== null && !logMoods.includes(item.mood)) {
+      return res.status(400).json({ error: "invalid_request" });
+    }
   }
 
   const client = await pool.connect();
   try {
     await client.query("BEGIN");
 
-    const childResult = await client.query(
-      "SELECT 1 FROM children WHERE id = $1 AND user_id = $2",
-      [childId, userId],
+    const access = await authorizeChild(
+      client,
+      req as AuthenticatedRequest,
+      childId,
+      "editor",
+      "log_write",
     );
-    if (childResult.rowCount === 0) {
+    if (!access.ok) {
       await client.query("ROLLBACK");
-      return res.status(404).json({ error: "not_found" });
+      return res.status(access.status).json({ error: access.error });
     }
 
-    if (items.length > 0) {
-      const taskIds = Array.from(taskIdSet);
-      const taskResult = await client.query(
-        "SELECT id FROM tasks WHERE user_id = $1 AND child_id = $2 AND id = ANY($3::uuid[])",
-        [userId, childId, taskIds],
-      );
-      if (taskResult.rowCount !== taskIds.length) {
+    // Serializes writes to the child's day and points ledger.
+    await client.query("SELECT 1 FROM children WHERE id = $1 FOR UPDATE", [childId]);
+
+    const taskIds = Array.from(taskIdSet);
+    const tasksById = await loadLogTasks(client, childId, taskIds);
+    if (tasksById.size !== taskIds.length) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "not_found" });
+    }
+    // Quantities only make sense for tasks that declare a unit.
+    for (const item of items) {
+      const quantity = item.quantity ?? null;
+      if (quantity !== null && !tasksById.get(item.task_id)?.unit) {
         await client.query("ROLLBACK");
-        return res.status(404).json({ error: "not_found" });
+        return res.status(400).json({ error: "invalid_request" });
       }
     }
 
     await client.query(
-      "DELETE FROM study_logs WHERE child_id = $1 AND user_id = $2 AND date = $3",
-      [childId, userId, dateParam],
+      "DELETE FROM study_logs WHERE child_id = $1 AND date = $2 AND NOT (task_id = ANY($3::uuid[]))",
+      [childId, dateParam, taskIds],
     );
 
+    // Upsert rather than replace so unchanged entries keep the member who recorded
+    // them, the task version they were logged against and the points they earned.
     if (items.length > 0) {
       const values: unknown[] = [];
       const placeholders = items
         .map((item, idx) => {
-          const baseIndex = idx * 5;
-          values.push(userId, childId, item.task_id, dateParam, item.minutes);
-          return `($${baseIndex + 1}, $${baseIndex + 2}, $${baseIndex + 3}, $${baseIndex + 4}, $${baseIndex + 5})`;
+          const baseIndex = idx * 12;
+          const task = tasksById.get(item.task_id);
+          values.push(
+            access.ownerUserId,
+            childId,
+            item.task_id,
+            task?.version,
+            dateParam,
+            item.minutes,
+            item.quantity ?? null,
+            userId,
+            logPoints(task?.point_mode ?? null, task?.points ?? null, item.minutes),
+            normalizeLogNote(item.note),
+            item.difficulty ?? null,
+            item.mood ?? null,
+          );
+          const params = Array.from({ length: 12 }, (_, offset) => `$${baseIndex + offset + 1}`);
+          return `(${params.join(", ")})`;
         })
         .join(", ");
 
       await client.query(
-        `INSERT INTO study_logs (user_id, child_id, task_id, date, minutes)
-         VALUES ${placeholders}`,
+        `INSERT INTO study_logs (user_id, child_id, task_id, task_version, date, minutes,
+                                 quantity, recorded_by, points, note, difficulty, mood)
+         VALUES ${placeholders}
+         ON CONFLICT (child_id, date, task_id) DO UPDATE SET
+           minutes = EXCLUDED.minutes,
+           quantity = EXCLUDED.quantity,
+           note = EXCLUDED.note,
+           difficulty = EXCLUDED.difficulty,
+           mood = EXCLUDED.mood,
+           recorded_by = CASE WHEN (study_logs.minutes, study_logs.quantity, study_logs.note,
+                                    study_logs.difficulty, study_logs.mood)
+                                   IS NOT DISTINCT FROM (EXCLUDED.minutes, EXCLUDED.quantity,
+                                                         EXCLUDED.note, EXCLUDED.difficulty,
+                                                         EXCLUDED.mood)
+                              THEN study_logs.recorded_by ELSE EXCLUDED.recorded_by END,
+           task_version = CASE WHEN (study_logs.minutes, study_logs.quantity)
+                                    IS NOT DISTINCT FROM (EXCLUDED.minutes, EXCLUDED.quantity)
+                               THEN study_logs.task_version ELSE EXCLUDED.task_version END,
+           points = CASE WHEN (study_logs.minutes, study_logs.quantity)
+                              IS NOT DISTINCT FROM (EXCLUDED.minutes, EXCLUDED.quantity)
+                         THEN study_logs.points ELSE EXCLUDED.points END,
+           updated_at = CASE WHEN (study_logs.minutes, study_logs.quantity, study_logs.note,
+                                   study_logs.difficulty, study_logs.mood)
+                                  IS NOT DISTINCT FROM (EXCLUDED.minutes, EXCLUDED.quantity,
+                                                        EXCLUDED.note, EXCLUDED.difficulty,
+                                                        EXCLUDED.mood)
+                             THEN study_logs.updated_at ELSE now() END`,
         values,
       );
     }
 
+    await syncStudyPoints(client, childId, dateParam, userId);
+    const pointsBalance = await loadPointBalance(client, childId);
+
+    // The new logs may complete a badge; new_badges lets the app celebrate it.
+    const { new_badges } = await evaluateAchievements(
+      client,
+      childId,
+      access.householdId,
+      dateParam,
+    );
+
     await client.query("COMMIT");
-    return res.json({ date: dateParam, saved_count: items.length });
+    return res.json({
+      date: dateParam,
+      saved_count: items.length,
+      points_balance: pointsBalance,
+      new_badges,
+      items: items.map((item) => {
+        const task = tasksById.get(item.task_id);
+        const quantity = item.quantity ?? null;
+        return {
+          task_id: item.task_id,
+          minutes: item.minutes,
+          unit: task?.unit ?? null,
+          target_quantity: task?.target_quantity ?? null,
+          quantity,
+          quantity_progress: quantityProgress(quantity, task?.target_quantity),
+          note: normalizeLogNote(item.note),
+          difficulty: item.difficulty ?? null,
+          mood: item.mood ?? null,
+        };
+      }),
+    });
   } catch (error) {
     await client.query("ROLLBACK");
     console.error("put daily failed", error);
@@ -1181,18 +5933,336 @@ app.put("/api/v1/children/:childId/daily", async (req, res) => {
   }
 });
 
+// elapsed_seconds includes the current running stretch.
+const timerColumns = `t.id, t.task_id, tk.name AS task_name, TO_CHAR(t.date, 'YYYY-MM-DD') AS date,
+                      t.status,
+                      t.elapsed_seconds + CASE WHEN t.status = 'running'
+                        THEN EXTRACT(EPOCH FROM now() - t.running_since)::int ELSE 0 END
+                        AS elapsed_seconds,
+                      t.running_since, t.started_by, t.started_at, t.stopped_at`;
+
+// The child's running or paused timer, if any.
+const loadActiveTimer = async (db: Queryable, childId: string) => {
+  const result = await db.query(
+    `SELECT ${timerColumns}
+     FROM study_timers t
+     JOIN tasks tk ON tk.id = t.task_id
+     WHERE t.child_id = $1 AND t.status <> 'stopped'`,
+    [childId],
+  );
+  return result.rows[0] ?? null;
+};
+
+type TimerChange =
+  | { ok: true; timer: Record<string, unknown> }
+  | { ok: false; status: number; error: string };
+
+// Applies a pause/resume/stop to the child's timer: set is the SET list and
+// fromStatus the condition the timer must be in. Returns the updated timer, or
+// the reason nothing was updated.
+const changeTimer = async (
+  db: Queryable,
+  childId: string,
+  timerId: string,
+  set: string,
+  fromStatus: string,
+): Promise<TimerChange> => {
+  const result = await db.query(
+    `WITH t AS (
+       UPDATE study_timers SET ${set}, updated_at = now()
+       WHERE id = $1 AND child_id = $2 AND ${fromStatus}
+       RETURNING *
+     )
+     SELECT ${timerColumns}
+     FROM t
+     JOIN tasks tk ON tk.id = t.task_id`,
+    [timerId, childId],
+  );
+  const timer = result.rows[0];
+  if (timer) {
+    return { ok: true, timer };
+  }
+  const exists = await db.query("SELECT 1 FROM study_timers WHERE id = $1 AND child_id = $2", [
+    timerId,
+    childId,
+  ]);
+  return (exists.rowCount ?? 0) > 0
+    ? { ok: false, status: 409, error: "invalid_timer_state" }
+    : { ok: false, status: 404, error: "not_found" };
+};
+
+app.get("/api/v1/children/:childId/timers/current", async (req, res) => {
+  const { childId } = req.params;
+
+  if (!isUuid(childId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const access = await authorizeChild(
+      pool,
+      req as AuthenticatedRequest,
+      childId,
+      "viewer",
+      "daily_view",
+    );
+    if (!access.ok) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    return res.json({ timer: await loadActiveTimer(pool, childId) });
+  } catch (error) {
+    console.error("get current timer failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+// Body: task_id, date (the day to log the time on; default today).
+app.post("/api/v1/children/:childId/timers", limitBy("daily_write", byUser));
+app.post("/api/v1/children/:childId/timers", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { childId } = req.params;
+  const { task_id, date } = req.body ?? {};
+
+  if (!isUuid(childId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (typeof task_id !== "string" || !isUuid(task_id)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (date !== undefined && (typeof date !== "string" || !isValidDate(date))) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const access = await authorizeChild(
+      pool,
+      req as AuthenticatedRequest,
+      childId,
+      "editor",
+      "log_write",
+    );
+    if (!access.ok) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const result = await pool.query(
+      `WITH t AS (
+         INSERT INTO study_timers (child_id, task_id, date, started_by)
+         SELECT $1, id, $3, $4
+         FROM tasks
+         WHERE id = $2 AND child_id = $1 AND is_archived = false
+         RETURNING *
+       )
+       SELECT ${timerColumns}
+       FROM t
+       JOIN tasks tk ON tk.id = t.task_id`,
+      [childId, task_id, date ?? formatUtcDate(new Date()), userId],
+    );
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: "not_found" });
+    }
+    return res.status(201).json(result.rows[0]);
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ error: "timer_active" });
+    }
+    console.error("start timer failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+app.post("/api/v1/children/:childId/timers/:timerId/pause", async (req, res) => {
+  const { childId, timerId } = req.params;
+
+  if (!isUuid(childId) || !isUuid(timerId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const access = await authorizeChild(
+      pool,
+      req as AuthenticatedRequest,
+      childId,
+      "editor",
+      "log_write",
+    );
+    if (!access.ok) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const changed = await changeTimer(
+      pool,
+      childId,
+      timerId,
+      `status = 'paused',
+       elapsed_seconds = elapsed_seconds + EXTRACT(EPOCH FROM now() - running_since)::int,
+       running_since = NULL`,
+      "status = 'running'",
+    );
+    if (!changed.ok) {
+      return res.status(changed.status).json({ error: changed.error });
+    }
+    return res.json(changed.timer);
+  } catch (error) {
+    console.error("pause timer failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+app.post("/api/v1/children/:childId/timers/:timerId/resume", async (req, res) => {
+  const { childId, timerId } = req.params;
+
+  if (!isUuid(childId) || !isUuid(timerId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const access = await authorizeChild(
+      pool,
+      req as AuthenticatedRequest,
+      childId,
+      "editor",
+      "log_write",
+    );
+    if (!access.ok) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const changed = await changeTimer(
+      pool,
+      childId,
+      timerId,
+      "status = 'running', running_since = now()",
+      "status = 'paused'",
+    );
+    if (!changed.ok) {
+      return res.status(changed.status).json({ error: changed.error });
+    }
+    return res.json(changed.timer);
+  } catch (error) {
+    console.error("resume timer failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+// Adds the timer's minutes (rounded; nothing under 30 seconds) to the task's
+// log for the timer's date, creating the log if there is none yet.
+app.post("/api/v1/children/:childId/timers/:timerId/stop", limitBy("daily_write", byUser));
+app.post("/api/v1/children/:childId/timers/:timerId/stop", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { childId, timerId } = req.params;
+
+  if (!isUuid(childId) || !isUuid(timerId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const access = await authorizeChild(
+      client,
+      req as AuthenticatedRequest,
+      childId,
+      "editor",
+      "log_write",
+    );
+    if (!access.ok) {
+      await client.query("ROLLBACK");
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    // Same lock as PUT daily: the day's logs and the points ledger change together.
+    await client.query("SELECT 1 FROM children WHERE id = $1 FOR UPDATE", [childId]);
+
+    const changed = await changeTimer(
+      client,
+      childId,
+      timerId,
+      `status = 'stopped',
+       elapsed_seconds = elapsed_seconds + CASE WHEN status = 'running'
+         THEN EXTRACT(EPOCH FROM now() - running_since)::int ELSE 0 END,
+       running_since = NULL,
+       stopped_at = now()`,
+      "status <> 'stopped'",
+    );
+    if (!changed.ok) {
+      await client.query("ROLLBACK");
+      return res.status(changed.status).json({ error: changed.error });
+    }
+    const timer = changed.timer;
+    const taskId = String(timer.task_id);
+    const date = String(timer.date);
+    const addedMinutes = Math.round(Number(timer.elapsed_seconds) / 60);
+
+    let log = null;
+    if (addedMinutes > 0) {
+      const task = (await loadLogTasks(client, childId, [taskId])).get(taskId);
+      const existing = await client.query(
+        "SELECT minutes FROM study_logs WHERE child_id = $1 AND date = $2 AND task_id = $3",
+        [childId, date, taskId],
+      );
+      const minutes = Number(existing.rows[0]?.minutes ?? 0) + addedMinutes;
+      // Like an edit through PUT daily: the entry moves to the current task
+      // version and is worth what the current point rule says.
+      const logResult = await client.query(
+        `INSERT INTO study_logs (user_id, child_id, task_id, task_version, date, minutes,
+                                 recorded_by, points)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         ON CONFLICT (child_id, date, task_id) DO UPDATE SET
+           minutes = EXCLUDED.minutes,
+           task_version = EXCLUDED.task_version,
+           points = EXCLUDED.points,
+           recorded_by = EXCLUDED.recorded_by,
+           updated_at = now()
+         RETURNING task_id, TO_CHAR(date, 'YYYY-MM-DD') AS date, minutes, quantity, note,
+                   difficulty, mood, recorded_by`,
+        [
+          access.ownerUserId,
+          childId,
+          taskId,
+          task?.version,
+          date,
+          minutes,
+          userId,
+          logPoints(task?.point_mode ?? null, task?.points ?? null, minutes),
+        ],
+      );
+      log = logResult.rows[0];
+      await syncStudyPoints(client, childId, date, userId);
+    }
+    const pointsBalance = await loadPointBalance(client, childId);
+    const { new_badges } = await evaluateAchievements(
+      client,
+      childId,
+      access.householdId,
+      date,
+    );
+
+    await client.query("COMMIT");
+    return res.json({
+      timer,
+      added_minutes: addedMinutes,
+      log,
+      points_balance: pointsBalance,
+      new_badges,
+    });
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("stop timer failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  } finally {
+    client.release();
+  }
+});
+
+app.post("/api/v1/children/:childId/tasks", limitBy("task_write", byUser));
 app.post("/api/v1/children/:childId/tasks", async (req, res) => {
   const { userId } = req as AuthenticatedRequest;
   const { childId } = req.params;
-  const {
-    name,
-    description,
-    subject,
-    default_minutes,
-    days_mask,
-    start_date,
-    end_date,
-  } = req.body ?? {};
+  const { name, description, subject, subject_id, default_minutes, start_date, end_date } =
+    req.body ?? {};
 
   if (!isUuid(childId)) {
     return res.status(400).json({ error: "invalid_request" });
@@ -1201,7 +6271,7 @@ app.post("/api/v1/children/:childId/tasks", async (req, res) => {
   if (typeof name !== "string" || !name.trim()) {
     return res.status(400).json({ error: "invalid_request" });
   }
-  if (typeof subject !== "string" || !subject.trim()) {
+  if (!isValidTaskSubjectInput(subject_id, subject, true)) {
     return res.status(400).json({ error: "invalid_request" });
   }
   if (description !== undefined && description !== null && typeof description !== "string") {
@@ -1214,88 +6284,266 @@ app.post("/api/v1/children/:childId/tasks", async (req, res) => {
   if (!Number.isInteger(minutes) || minutes < 1) {
     return res.status(400).json({ error: "invalid_request" });
   }
-  if (typeof days_mask !== "number" || !Number.isInteger(days_mask)) {
+  const scheduleFields = parseTaskScheduleFields(req.body ?? {});
+  if (!scheduleFields) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  const quantityFields = parseTaskQuantityFields(req.body ?? {});
+  const unit = quantityFields?.unit ?? null;
+  const targetQuantity = quantityFields?.target_quantity ?? null;
+  if (!quantityFields || !isValidTaskQuantity(unit, targetQuantity)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  let startDate: string | null | undefined = undefined;
+  let endDate: string | null | undefined = undefined;
+
+  if (start_date !== undefined) {
+    if (start_date === null) {
+      startDate = null;
+    } else if (typeof start_date === "string" && isValidDate(start_date)) {
+      startDate = start_date;
+    } else {
+      return res.status(400).json({ error: "invalid_request" });
+    }
+  }
+
+  if (end_date !== undefined) {
+    if (end_date === null) {
+      endDate = null;
+    } else if (typeof end_date === "string" && isValidDate(end_date)) {
+      endDate = end_date;
+    } else {
+      return res.status(400).json({ error: "invalid_request" });
+    }
+  }
+
+  const schedule: TaskSchedule = {
+    days_mask: scheduleFields.days_mask ?? null,
+    rrule: scheduleFields.rrule ?? null,
+    rdates: scheduleFields.rdates ?? [],
+    start_date: startDate ?? null,
+    end_date: endDate ?? null,
+  };
+  if (!isValidSchedule(schedule)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const access = await authorizeChild(pool, req as AuthenticatedRequest, childId, "editor");
+    if (!access.ok) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const taskSubject = await resolveTaskSubject(pool, access.householdId, subject_id, subject);
+    if (!taskSubject) {
+      return res.status(400).json({ error: "invalid_request" });
+    }
+
+    const result = await pool.query(
+      `WITH written AS (
+         INSERT INTO tasks (user_id, child_id, name, description, subject, subject_id,
+                            default_minutes, days_mask, rrule, rdates, start_date, end_date,
+                            unit, target_quantity)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+         RETURNING *
+       ), ${taskVersionSnapshotCte(15)}
+       SELECT ${writtenTaskColumns} FROM written`,
+      [
+        access.ownerUserId,
+        childId,
+        name.trim(),
+        description ?? null,
+        taskSubject.name,
+        taskSubject.id,
+        minutes,
+        schedule.days_mask,
+        schedule.rrule,
+        schedule.rdates,
+        schedule.start_date,
+        schedule.end_date,
+        unit,
+        targetQuantity,
+        userId,
+      ],
+    );
+    return res.status(201).json(result.rows[0]);
+  } catch (error) {
+    console.error("create task failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+// Body: template_id (a household template) or starter_pack (a bundled pack id),
+// with optional start_date/end_date for the new tasks. start_date defaults to
+// today, since rrule tasks need one.
+app.post("/api/v1/children/:childId/tasks/apply-template", limitBy("task_write", byUser));
+app.post("/api/v1/children/:childId/tasks/apply-template", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { childId } = req.params;
+  const { template_id, starter_pack, start_date, end_date } = req.body ?? {};
+
+  if (!isUuid(childId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if ((template_id === undefined) === (starter_pack === undefined)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (template_id !== undefined && (typeof template_id !== "string" || !isUuid(template_id))) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (starter_pack !== undefined && typeof starter_pack !== "string") {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (start_date !== undefined && (typeof start_date !== "string" || !isValidDate(start_date))) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (
+    end_date !== undefined &&
+    end_date !== null &&
+    (typeof end_date !== "string" || !isValidDate(end_date))
+  ) {
     return res.status(400).json({ error: "invalid_request" });
   }
-  if (days_mask < 1 || days_mask > 127) {
+  const startDate: string = start_date ?? formatUtcDate(new Date());
+  const endDate: string | null = end_date ?? null;
+  if (endDate !== null && startDate > endDate) {
     return res.status(400).json({ error: "invalid_request" });
   }
 
-  let startDate: string | null | undefined = undefined;
-  let endDate: string | null | undefined = undefined;
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
 
-  if (start_date !== undefined) {
-    if (start_date === null) {
-      startDate = null;
-    } else if (typeof start_date === "string" && isValidDate(start_date)) {
-      startDate = start_date;
-    } else {
-      return res.status(400).json({ error: "invalid_request" });
+    const access = await authorizeChild(client, req as AuthenticatedRequest, childId, "editor");
+    if (!access.ok) {
+      await client.query("ROLLBACK");
+      return res.status(access.status).json({ error: access.error });
     }
-  }
 
-  if (end_date !== undefined) {
-    if (end_date === null) {
-      endDate = null;
-    } else if (typeof end_date === "string" && isValidDate(end_date)) {
-      endDate = end_date;
+    let templateTasks: TemplateTask[];
+    if (template_id !== undefined) {
+      // Any household the caller belongs to; subjects are matched by name.
+      const template = await client.query(
+        `SELECT t.id
+         FROM task_templates t
+         JOIN household_members m ON m.household_id = t.household_id AND m.user_id = $2
+         WHERE t.id = $1`,
+        [template_id, userId],
+      );
+      if (template.rowCount === 0) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "not_found" });
+      }
+      const items = await client.query(
+        `SELECT name, description, subject, default_minutes, days_mask, rrule, unit,
+                target_quantity
+         FROM task_template_items
+         WHERE template_id = $1
+         ORDER BY sort_order ASC`,
+        [template_id],
+      );
+      templateTasks = items.rows;
     } else {
-      return res.status(400).json({ error: "invalid_request" });
+      const pack = findStarterPack(starter_pack);
+      if (!pack) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "not_found" });
+      }
+      templateTasks = pack.tasks;
     }
+
+    const created = await appendTasks(
+      client,
+      childId,
+      access,
+      templateTasks.map((task, index) => ({
+        ...task,
+        rdates: [],
+        start_date: startDate,
+        end_date: endDate,
+        sort_order: index,
+      })),
+      userId,
+    );
+
+    await client.query("COMMIT");
+    return res.status(201).json({ created });
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("apply task template failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  } finally {
+    client.release();
   }
+});
 
-  if (
-    startDate !== undefined &&
-    endDate !== undefined &&
-    startDate !== null &&
-    endDate !== null &&
-    startDate > endDate
-  ) {
+// Copies the source child's active tasks with their schedules, date ranges and
+// order. Exceptions and logs stay with the source child.
+app.post("/api/v1/children/:childId/tasks/clone", limitBy("task_write", byUser));
+app.post("/api/v1/children/:childId/tasks/clone", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { childId } = req.params;
+  const { from_child_id } = req.body ?? {};
+
+  if (!isUuid(childId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (typeof from_child_id !== "string" || !isUuid(from_child_id) || from_child_id === childId) {
     return res.status(400).json({ error: "invalid_request" });
   }
 
+  const client = await pool.connect();
   try {
-    const childResult = await pool.query(
-      "SELECT 1 FROM children WHERE id = $1 AND user_id = $2",
-      [childId, userId],
+    await client.query("BEGIN");
+
+    const access = await authorizeChild(client, req as AuthenticatedRequest, childId, "editor");
+    if (!access.ok) {
+      await client.query("ROLLBACK");
+      return res.status(access.status).json({ error: access.error });
+    }
+    const source = await authorizeChild(
+      client,
+      req as AuthenticatedRequest,
+      from_child_id,
+      "viewer",
     );
-    if (childResult.rowCount === 0) {
-      return res.status(404).json({ error: "not_found" });
+    if (!source.ok) {
+      await client.query("ROLLBACK");
+      return res.status(source.status).json({ error: source.error });
     }
 
-    const result = await pool.query(
-      `INSERT INTO tasks (user_id, child_id, name, description, subject, default_minutes, days_mask, start_date, end_date)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-       RETURNING id,
-                 name,
-                 description,
-                 subject,
-                 default_minutes,
-                 days_mask,
-                 is_archived,
-                 TO_CHAR(start_date, 'YYYY-MM-DD') AS start_date,
-                 TO_CHAR(end_date, 'YYYY-MM-DD') AS end_date`,
-      [
-        userId,
-        childId,
-        name.trim(),
-        description ?? null,
-        subject.trim(),
-        minutes,
-        days_mask,
-        startDate ?? null,
-        endDate ?? null,
-      ],
+    const tasks = await client.query(
+      `SELECT name, description, subject, subject_id, default_minutes, days_mask, rrule, rdates,
+              TO_CHAR(start_date, 'YYYY-MM-DD') AS start_date,
+              TO_CHAR(end_date, 'YYYY-MM-DD') AS end_date,
+              unit, target_quantity, sort_order
+       FROM tasks
+       WHERE child_id = $1 AND is_archived = false
+       ORDER BY sort_order ASC, created_at ASC`,
+      [from_child_id],
     );
-    return res.status(201).json(result.rows[0]);
+    const sameHousehold = source.householdId === access.householdId;
+    const newTasks: NewTask[] = tasks.rows.map(({ subject_id, ...task }) =>
+      sameHousehold ? { ...task, subject_id } : task,
+    );
+
+    const created =
+      newTasks.length > 0 ? await appendTasks(client, childId, access, newTasks, userId) : [];
+
+    await client.query("COMMIT");
+    return res.status(201).json({ created });
   } catch (error) {
-    console.error("create task failed", error);
+    await client.query("ROLLBACK");
+    console.error("clone tasks failed", error);
     return res.status(500).json({ error: "internal server error" });
+  } finally {
+    client.release();
   }
 });
 
+app.put("/api/v1/children/:childId/tasks/reorder", limitBy("task_write", byUser));
 app.put("/api/v1/children/:childId/tasks/reorder", async (req, res) => {
-  const { userId } = req as AuthenticatedRequest;
   const { childId } = req.params;
   const { orders, items } = req.body ?? {};
   const payloadOrders = Array.isArray(orders) ? orders : items;
@@ -1329,18 +6577,15 @@ app.put("/api/v1/children/:childId/tasks/reorder", async (req, res) => {
   try {
     await client.query("BEGIN");
 
-    const childResult = await client.query(
-      "SELECT 1 FROM children WHERE id = $1 AND user_id = $2",
-      [childId, userId],
-    );
-    if (childResult.rowCount === 0) {
+    const access = await authorizeChild(client, req as AuthenticatedRequest, childId, "editor");
+    if (!access.ok) {
       await client.query("ROLLBACK");
       return res.status(403).json({ error: "forbidden" });
     }
 
     const taskResult = await client.query(
-      "SELECT id FROM tasks WHERE user_id = $1 AND child_id = $2 AND id = ANY($3::uuid[])",
-      [userId, childId, taskIds],
+      "SELECT id FROM tasks WHERE child_id = $1 AND id = ANY($2::uuid[])",
+      [childId, taskIds],
     );
     if (taskResult.rowCount !== taskIds.length) {
       await client.query("ROLLBACK");
@@ -1355,7 +6600,7 @@ app.put("/api/v1/children/:childId/tasks/reorder", async (req, res) => {
         return `($${baseIndex + 1}::uuid, $${baseIndex + 2}::int)`;
       })
       .join(", ");
-    values.push(childId, userId);
+    values.push(childId);
 
     const updateResult = await client.query(
       `UPDATE tasks
@@ -1363,8 +6608,7 @@ app.put("/api/v1/children/:childId/tasks/reorder", async (req, res) => {
            updated_at = now()
        FROM (VALUES ${placeholders}) AS updates(id, sort_order)
        WHERE tasks.id = updates.id
-         AND tasks.child_id = $${values.length - 1}
-         AND tasks.user_id = $${values.length}
+         AND tasks.child_id = $${values.length}
        RETURNING tasks.id`,
       values,
     );
@@ -1380,6 +6624,7 @@ app.put("/api/v1/children/:childId/tasks/reorder", async (req, res) => {
   }
 });
 
+app.put("/api/v1/children/:childId/tasks/:taskId", limitBy("task_write", byUser));
 app.put("/api/v1/children/:childId/tasks/:taskId", async (req, res) => {
   const { userId } = req as AuthenticatedRequest;
   const { childId, taskId } = req.params;
@@ -1387,8 +6632,8 @@ app.put("/api/v1/children/:childId/tasks/:taskId", async (req, res) => {
     name,
     description,
     subject,
+    subject_id,
     default_minutes,
-    days_mask,
     is_archived,
     start_date,
     end_date,
@@ -1400,7 +6645,7 @@ app.put("/api/v1/children/:childId/tasks/:taskId", async (req, res) => {
   if (typeof name !== "string" || !name.trim()) {
     return res.status(400).json({ error: "invalid_request" });
   }
-  if (typeof subject !== "string" || !subject.trim()) {
+  if (!isValidTaskSubjectInput(subject_id, subject, true)) {
     return res.status(400).json({ error: "invalid_request" });
   }
   if (description !== undefined && description !== null && typeof description !== "string") {
@@ -1412,10 +6657,15 @@ app.put("/api/v1/children/:childId/tasks/:taskId", async (req, res) => {
   if (default_minutes < 1) {
     return res.status(400).json({ error: "invalid_request" });
   }
-  if (typeof days_mask !== "number" || !Number.isInteger(days_mask)) {
+  const scheduleFields = parseTaskScheduleFields(req.body ?? {});
+  if (!scheduleFields) {
     return res.status(400).json({ error: "invalid_request" });
   }
-  if (days_mask < 1 || days_mask > 127) {
+  // Omitted like the schedule fields: PUT without a unit makes it a minutes-only task.
+  const quantityFields = parseTaskQuantityFields(req.body ?? {});
+  const unit = quantityFields?.unit ?? null;
+  const targetQuantity = quantityFields?.target_quantity ?? null;
+  if (!quantityFields || !isValidTaskQuantity(unit, targetQuantity)) {
     return res.status(400).json({ error: "invalid_request" });
   }
   if (typeof is_archived !== "boolean") {
@@ -1445,11 +6695,16 @@ app.put("/api/v1/children/:childId/tasks/:taskId", async (req, res) => {
     }
   }
 
-  if (startDate === undefined || endDate === undefined) {
-    try {
+  try {
+    const access = await authorizeChild(pool, req as AuthenticatedRequest, childId, "editor");
+    if (!access.ok) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    if (startDate === undefined || endDate === undefined) {
       const existing = await pool.query(
-        "SELECT start_date, end_date FROM tasks WHERE id = $1 AND child_id = $2 AND user_id = $3",
-        [taskId, childId, userId],
+        "SELECT start_date, end_date FROM tasks WHERE id = $1 AND child_id = $2",
+        [taskId, childId],
       );
       if (existing.rowCount === 0) {
         return res.status(404).json({ error: "not_found" });
@@ -1466,47 +6721,61 @@ app.put("/api/v1/children/:childId/tasks/:taskId", async (req, res) => {
       if (endDate === undefined) {
         endDate = currentEnd;
       }
-    } catch (error) {
-      console.error("put task date validation failed", error);
-      return res.status(500).json({ error: "internal server error" });
     }
-  }
 
-  if (startDate !== null && endDate !== null && startDate > endDate) {
-    return res.status(400).json({ error: "invalid_request" });
-  }
+    // PUT replaces the whole task, so omitted schedule fields are cleared.
+    const schedule: TaskSchedule = {
+      days_mask: scheduleFields.days_mask ?? null,
+      rrule: scheduleFields.rrule ?? null,
+      rdates: scheduleFields.rdates ?? [],
+      start_date: startDate,
+      end_date: endDate,
+    };
+    if (!isValidSchedule(schedule)) {
+      return res.status(400).json({ error: "invalid_request" });
+    }
+
+    const taskSubject = await resolveTaskSubject(pool, access.householdId, subject_id, subject);
+    if (!taskSubject) {
+      return res.status(400).json({ error: "invalid_request" });
+    }
 
-  try {
     const result = await pool.query(
-      `UPDATE tasks
-       SET name = $1,
-           description = $2,
-           subject = $3,
-           default_minutes = $4,
-           days_mask = $5,
-           is_archived = $6,
-           start_date = $7,
-           end_date = $8,
-           updated_at = now()
-       WHERE id = $9 AND child_id = $10 AND user_id = $11
-       RETURNING id,
-                 name,
-                 description,
-                 subject,
-                 default_minutes,
-                 days_mask,
-                 is_archived,
-                 TO_CHAR(start_date, 'YYYY-MM-DD') AS start_date,
-                 TO_CHAR(end_date, 'YYYY-MM-DD') AS end_date`,
+      `WITH written AS (
+         UPDATE tasks
+         SET name = $1,
+             description = $2,
+             subject = $3,
+             subject_id = $4,
+             default_minutes = $5,
+             days_mask = $6,
+             rrule = $7,
+             rdates = $8,
+             is_archived = $9,
+             start_date = $10,
+             end_date = $11,
+             unit = $12,
+             target_quantity = $13,
+             version = version + 1,
+             updated_at = now()
+         WHERE id = $14 AND child_id = $15
+         RETURNING *
+       ), ${taskVersionSnapshotCte(16)}
+       SELECT ${writtenTaskColumns} FROM written`,
       [
         name.trim(),
         description ?? null,
-        subject.trim(),
+        taskSubject.name,
+        taskSubject.id,
         default_minutes,
-        days_mask,
+        schedule.days_mask,
+        schedule.rrule,
+        schedule.rdates,
         is_archived,
-        startDate,
-        endDate,
+        schedule.start_date,
+        schedule.end_date,
+        unit,
+        targetQuantity,
         taskId,
         childId,
         userId,
@@ -1524,6 +6793,223 @@ app.put("/api/v1/children/:childId/tasks/:taskId", async (req, res) => {
   }
 });
 
+app.get("/api/v1/children/:childId/tasks/:taskId/exceptions", async (req, res) => {
+  const { childId, taskId } = req.params;
+  const fromParam = req.query.from;
+  const toParam = req.query.to;
+
+  if (!isUuid(childId) || !isUuid(taskId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (fromParam !== undefined && (typeof fromParam !== "string" || !isValidDate(fromParam))) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (toParam !== undefined && (typeof toParam !== "string" || !isValidDate(toParam))) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const access = await authorizeChild(
+      pool,
+      req as AuthenticatedRequest,
+      childId,
+      "viewer",
+      "read",
+    );
+    if (!access.ok) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const taskResult = await pool.query("SELECT 1 FROM tasks WHERE id = $1 AND child_id = $2", [
+      taskId,
+      childId,
+    ]);
+    if (taskResult.rowCount === 0) {
+      return res.status(404).json({ error: "not_found" });
+    }
+
+    const result = await pool.query(
+      `SELECT TO_CHAR(date, 'YYYY-MM-DD') AS date,
+              action,
+              TO_CHAR(moved_to, 'YYYY-MM-DD') AS moved_to,
+              minutes,
+              created_by,
+              updated_at
+       FROM task_exceptions
+       WHERE task_id = $1
+         AND ($2::date IS NULL OR date >= $2::date)
+         AND ($3::date IS NULL OR date <= $3::date)
+       ORDER BY date ASC`,
+      [taskId, fromParam ?? null, toParam ?? null],
+    );
+    return res.json(result.rows);
+  } catch (error) {
+    console.error("list task exceptions failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+// :date is the originally scheduled date the exception applies to.
+app.put("/api/v1/children/:childId/tasks/:taskId/exceptions/:date", limitBy("task_write", byUser));
+app.put("/api/v1/children/:childId/tasks/:taskId/exceptions/:date", async (req, res) => {
+  const { userId } = req as AuthenticatedRequest;
+  const { childId, taskId, date } = req.params;
+  const { action, moved_to, minutes } = req.body ?? {};
+
+  if (!isUuid(childId) || !isUuid(taskId) || !isValidDate(date)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (action !== "skip" && action !== "move" && action !== "override") {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (action === "move") {
+    if (typeof moved_to !== "string" || !isValidDate(moved_to) || moved_to === date) {
+      return res.status(400).json({ error: "invalid_request" });
+    }
+  } else if (moved_to !== undefined && moved_to !== null) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  if (action === "override" || (action === "move" && minutes !== undefined && minutes !== null)) {
+    if (typeof minutes !== "number" || !Number.isInteger(minutes) || minutes < 1) {
+      return res.status(400).json({ error: "invalid_request" });
+    }
+  } else if (minutes !== undefined && minutes !== null) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const access = await authorizeChild(pool, req as AuthenticatedRequest, childId, "editor");
+    if (!access.ok) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const taskResult = await pool.query(
+      `SELECT days_mask, rrule, rdates,
+              TO_CHAR(start_date, 'YYYY-MM-DD') AS start_date,
+              TO_CHAR(end_date, 'YYYY-MM-DD') AS end_date
+       FROM tasks
+       WHERE id = $1 AND child_id = $2`,
+      [taskId, childId],
+    );
+    const task: TaskSchedule | undefined = taskResult.rows[0];
+    if (!task) {
+      return res.status(404).json({ error: "not_found" });
+    }
+    if (!isScheduledOn(task, date)) {
+      return res.status(400).json({ error: "not_scheduled" });
+    }
+
+    const result = await pool.query(
+      `INSERT INTO task_exceptions (task_id, date, action, moved_to, minutes, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (task_id, date) DO UPDATE SET
+         action = EXCLUDED.action,
+         moved_to = EXCLUDED.moved_to,
+         minutes = EXCLUDED.minutes,
+         created_by = EXCLUDED.created_by,
+         updated_at = now()
+       RETURNING TO_CHAR(date, 'YYYY-MM-DD') AS date,
+                 action,
+                 TO_CHAR(moved_to, 'YYYY-MM-DD') AS moved_to,
+                 minutes,
+                 created_by,
+                 updated_at`,
+      [taskId, date, action, action === "move" ? moved_to : null, minutes ?? null, userId],
+    );
+    return res.json(result.rows[0]);
+  } catch (error) {
+    console.error("put task exception failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+app.delete(
+  "/api/v1/children/:childId/tasks/:taskId/exceptions/:date",
+  limitBy("task_write", byUser),
+);
+app.delete("/api/v1/children/:childId/tasks/:taskId/exceptions/:date", async (req, res) => {
+  const { childId, taskId, date } = req.params;
+
+  if (!isUuid(childId) || !isUuid(taskId) || !isValidDate(date)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const access = await authorizeChild(pool, req as AuthenticatedRequest, childId, "editor");
+    if (!access.ok) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const result = await pool.query(
+      `DELETE FROM task_exceptions e
+       USING tasks t
+       WHERE e.task_id = t.id AND t.id = $1 AND t.child_id = $2 AND e.date = $3`,
+      [taskId, childId, date],
+    );
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: "not_found" });
+    }
+    return res.status(204).send();
+  } catch (error) {
+    console.error("delete task exception failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+app.get("/api/v1/tasks/:taskId/history", async (req, res) => {
+  const { taskId } = req.params;
+
+  if (!isUuid(taskId)) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+
+  try {
+    const taskResult = await pool.query("SELECT child_id FROM tasks WHERE id = $1", [taskId]);
+    const task = taskResult.rows[0];
+    if (!task) {
+      return res.status(404).json({ error: "not_found" });
+    }
+    const access = await authorizeChild(
+      pool,
+      req as AuthenticatedRequest,
+      task.child_id,
+      "viewer",
+      "read",
+    );
+    if (!access.ok) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const result = await pool.query(
+      `SELECT version,
+              name,
+              description,
+              subject,
+              subject_id,
+              default_minutes,
+              days_mask,
+              rrule,
+              rdates,
+              is_archived,
+              unit,
+              target_quantity,
+              TO_CHAR(start_date, 'YYYY-MM-DD') AS start_date,
+              TO_CHAR(end_date, 'YYYY-MM-DD') AS end_date,
+              changed_by,
+              created_at AS changed_at
+       FROM task_versions
+       WHERE task_id = $1
+       ORDER BY version ASC`,
+      [taskId],
+    );
+    return res.json({ task_id: taskId, versions: result.rows });
+  } catch (error) {
+    console.error("get task history failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+});
+
+app.patch("/api/v1/tasks/:taskId", limitBy("task_write", byUser));
 app.patch("/api/v1/tasks/:taskId", async (req, res) => {
   const { userId } = req as AuthenticatedRequest;
   const { taskId } = req.params;
@@ -1531,8 +7017,8 @@ app.patch("/api/v1/tasks/:taskId", async (req, res) => {
     name,
     description,
     subject,
+    subject_id,
     default_minutes,
-    days_mask,
     is_archived,
     start_date,
     end_date,
@@ -1562,12 +7048,8 @@ app.patch("/api/v1/tasks/:taskId", async (req, res) => {
     values.push(description);
   }
 
-  if (subject !== undefined) {
-    if (typeof subject !== "string" || !subject.trim()) {
-      return res.status(400).json({ error: "invalid_request" });
-    }
-    fields.push(`subject = $${index++}`);
-    values.push(subject.trim());
+  if (!isValidTaskSubjectInput(subject_id, subject, false)) {
+    return res.status(400).json({ error: "invalid_request" });
   }
 
   if (default_minutes !== undefined) {
@@ -1581,15 +7063,39 @@ app.patch("/api/v1/tasks/:taskId", async (req, res) => {
     values.push(default_minutes);
   }
 
-  if (days_mask !== undefined) {
-    if (typeof days_mask !== "number" || !Number.isInteger(days_mask)) {
-      return res.status(400).json({ error: "invalid_request" });
+  const scheduleFields = parseTaskScheduleFields(req.body ?? {});
+  if (!scheduleFields) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  // Switching a task to an rrule drops its weekday mask and vice versa,
+  // unless the payload sets both (which isValidSchedule rejects).
+  if (scheduleFields.rrule && scheduleFields.days_mask === undefined) {
+    scheduleFields.days_mask = null;
+  }
+  if (scheduleFields.days_mask && scheduleFields.rrule === undefined) {
+    scheduleFields.rrule = null;
+  }
+  for (const key of ["days_mask", "rrule", "rdates"] as const) {
+    if (scheduleFields[key] !== undefined) {
+      fields.push(`${key} = $${index++}`);
+      values.push(scheduleFields[key]);
     }
-    if (days_mask < 1 || days_mask > 127) {
-      return res.status(400).json({ error: "invalid_request" });
+  }
+
+  const quantityFields = parseTaskQuantityFields(req.body ?? {});
+  if (!quantityFields) {
+    return res.status(400).json({ error: "invalid_request" });
+  }
+  // Clearing either field turns the task back into a minutes-only task.
+  if (quantityFields.unit === null || quantityFields.target_quantity === null) {
+    quantityFields.unit = null;
+    quantityFields.target_quantity = null;
+  }
+  for (const key of ["unit", "target_quantity"] as const) {
+    if (quantityFields[key] !== undefined) {
+      fields.push(`${key} = $${index++}`);
+      values.push(quantityFields[key]);
     }
-    fields.push(`days_mask = $${index++}`);
-    values.push(days_mask);
   }
 
   if (is_archived !== undefined) {
@@ -1627,29 +7133,92 @@ app.patch("/api/v1/tasks/:taskId", async (req, res) => {
     values.push(endDate);
   }
 
-  if (startDate !== undefined || endDate !== undefined) {
+  let access: ChildAccess;
+  try {
+    const taskResult = await pool.query("SELECT child_id FROM tasks WHERE id = $1", [taskId]);
+    const task = taskResult.rows[0];
+    if (!task) {
+      return res.status(404).json({ error: "not_found" });
+    }
+    access = await authorizeChild(pool, req as AuthenticatedRequest, task.child_id, "editor");
+  } catch (error) {
+    console.error("patch task authorization failed", error);
+    return res.status(500).json({ error: "internal server error" });
+  }
+  if (!access.ok) {
+    return res.status(access.status).json({ error: access.error });
+  }
+
+  if (
+    startDate !== undefined ||
+    endDate !== undefined ||
+    Object.keys(scheduleFields).length > 0
+  ) {
     try {
       const existing = await pool.query(
-        "SELECT start_date, end_date FROM tasks WHERE id = $1 AND user_id = $2",
-        [taskId, userId],
+        `SELECT days_mask, rrule, rdates,
+                TO_CHAR(start_date, 'YYYY-MM-DD') AS start_date,
+                TO_CHAR(end_date, 'YYYY-MM-DD') AS end_date
+         FROM tasks WHERE id = $1`,
+        [taskId],
       );
-      if (existing.rowCount === 0) {
+      const current: TaskSchedule | undefined = existing.rows[0];
+      if (!current) {
         return res.status(404).json({ error: "not_found" });
       }
-      const currentStart = existing.rows[0].start_date
-        ? String(existing.rows[0].start_date).slice(0, 10)
-        : null;
-      const currentEnd = existing.rows[0].end_date
-        ? String(existing.rows[0].end_date).slice(0, 10)
-        : null;
-      const nextStart = startDate !== undefined ? startDate : currentStart;
-      const nextEnd = endDate !== undefined ? endDate : currentEnd;
+      const next: TaskSchedule = {
+        ...current,
+        ...scheduleFields,
+        start_date: startDate !== undefined ? startDate : current.start_date,
+        end_date: endDate !== undefined ? endDate : current.end_date,
+      };
+
+      if (!isValidSchedule(next)) {
+        return res.status(400).json({ error: "invalid_request" });
+      }
+    } catch (error) {
+      console.error("patch task schedule validation failed", error);
+      return res.status(500).json({ error: "internal server error" });
+    }
+  }
+
+  // Changing only the target (or only the unit) needs the stored counterpart.
+  if ((quantityFields.unit === undefined) !== (quantityFields.target_quantity === undefined)) {
+    try {
+      const existing = await pool.query(
+        "SELECT unit, target_quantity FROM tasks WHERE id = $1",
+        [taskId],
+      );
+      const current = existing.rows[0];
+      if (!current) {
+        return res.status(404).json({ error: "not_found" });
+      }
+      if (
+        !isValidTaskQuantity(
+          quantityFields.unit ?? current.unit,
+          quantityFields.target_quantity ?? current.target_quantity,
+        )
+      ) {
+        return res.status(400).json({ error: "invalid_request" });
+      }
+    } catch (error) {
+      console.error("patch task quantity validation failed", error);
+      return res.status(500).json({ error: "internal server error" });
+    }
+  }
 
-      if (nextStart !== null && nextEnd !== null && nextStart > nextEnd) {
+  // Last, because a subject given by name is created here and a later 400
+  // would leave it behind.
+  if (subject_id !== undefined || subject !== undefined) {
+    try {
+      const taskSubject = await resolveTaskSubject(pool, access.householdId, subject_id, subject);
+      if (!taskSubject) {
         return res.status(400).json({ error: "invalid_request" });
       }
+      fields.push(`subject = $${index++}`, `subject_id = $${index++}`);
+      values.push(taskSubject.name, taskSubject.id);
     } catch (error) {
-      console.error("patch task date validation failed", error);
+      console.error("patch task subject failed", error);
       return res.status(500).json({ error: "internal server error" });
     }
   }
@@ -1658,22 +7227,17 @@ app.patch("/api/v1/tasks/:taskId", async (req, res) => {
     return res.status(400).json({ error: "invalid_request" });
   }
 
-  fields.push("updated_at = now()");
+  fields.push("version = version + 1", "updated_at = now()");
   values.push(taskId, userId);
 
   try {
     const result = await pool.query(
-      `UPDATE tasks SET ${fields.join(", ")}
-       WHERE id = $${index++} AND user_id = $${index}
-       RETURNING id,
-                 name,
-                 description,
-                 subject,
-                 default_minutes,
-                 days_mask,
-                 is_archived,
-                 TO_CHAR(start_date, 'YYYY-MM-DD') AS start_date,
-                 TO_CHAR(end_date, 'YYYY-MM-DD') AS end_date`,
+      `WITH written AS (
+         UPDATE tasks SET ${fields.join(", ")}
+         WHERE id = $${index}
+         RETURNING *
+       ), ${taskVersionSnapshotCte(index + 1)}
+       SELECT ${writtenTaskColumns} FROM written`,
       values,
     );
 
@@ -0,0 +1,32 @@
+import { randomUUID } from "crypto";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Writes each message as a JSON file instead of delivering it, so the auth
+// flows can run locally and in tests without an SMTP server.
+export const createOutboxTransport = (dir: string): MailTransport => ({
+  async send(message) {
+    await mkdir(dir, { recursive: true });
+    const fileName = `${Date.now()}-${randomUUID()}.json`;
+    const body = { ...message, created_at: new Date().toISOString() };
+    await writeFile(path.join(dir, fileName), JSON.stringify(body, null, 2));
+  },
+});
+
+export const createMailTransport = (): MailTransport => {
+  const transport = process.env.MAIL_TRANSPORT ?? "outbox";
+  if (transport === "outbox") {
+    return createOutboxTransport(process.env.MAIL_OUTBOX_DIR ?? "outbox");
+  }
+  throw new Error(`unknown MAIL_TRANSPORT: ${transport}`);
+};
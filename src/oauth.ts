@@ -0,0 +1,404 @@
+import { createPublicKey, type KeyObject, type webcrypto } from "crypto";
+import { readFileSync } from "fs";
+import jwt from "jsonwebtoken";
+
+export type OauthProfile = {
+  providerUserId: string | null;
+  email: string | null;
+  emailVerified: boolean;
+  displayName: string | null;
+  avatarUrl: string | null;
+};
+
+type OauthEndpoints = {
+  authorizeUrl: string;
+  tokenUrl: string;
+  userinfoUrl: string | null;
+  issuer: string | null;
+  jwksUri: string | null;
+};
+
+type OauthTokenResponse = {
+  access_token?: unknown;
+  id_token?: unknown;
+};
+
+export type OauthProvider = {
+  name: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string[];
+  authorizeParams: Record<string, string>;
+  resolveEndpoints: () => Promise<OauthEndpoints>;
+  mapProfile: (
+    tokens: OauthTokenResponse,
+    endpoints: OauthEndpoints,
+    provider: OauthProvider,
+  ) => Promise<OauthProfile>;
+};
+
+// Entry in the OIDC_PROVIDERS_FILE JSON array.
+type OidcProviderConfig = {
+  name: string;
+  issuer: string;
+  client_id: string;
+  client_secret?: string;
+  client_secret_env?: string;
+  scopes?: string[];
+  authorize_params?: Record<string, string>;
+};
+
+const fetchFn = (globalThis as { fetch?: (input: string, init?: any) => Promise<any> })
+  .fetch;
+const fetchJson = async (
+  url: string,
+  options: { method?: string; headers?: Record<string, string>; body?: string },
+): Promise<any> => {
+  if (!fetchFn) {
+    throw new Error("fetch is not available");
+  }
+  const response = await fetchFn(url, options);
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`oauth request failed: ${response.status} ${text}`);
+  }
+  return response.json();
+};
+
+const pickString = (value: unknown): string | null =>
+  typeof value === "string" && value.trim() ? value.trim() : null;
+
+type Jwk = webcrypto.JsonWebKey & { kid?: unknown; alg?: unknown };
+
+const asymmetricAlgorithms: Record<string, jwt.Algorithm[]> = {
+  RSA: ["RS256", "RS384", "RS512", "PS256", "PS384", "PS512"],
+  EC: ["ES256", "ES384", "ES512"],
+};
+
+// Key sets are cached per URL. A token signed with a kid we have not seen
+// refetches the set once, which picks up key rotation.
+const jwksCache = new Map<string, Promise<Jwk[]>>();
+
+const fetchJwks = (jwksUri: string, refresh: boolean): Promise<Jwk[]> => {
+  let cached = jwksCache.get(jwksUri);
+  if (!cached || refresh) {
+    cached = fetchJson(jwksUri, {}).then((document) => {
+      if (!Array.isArray(document.keys)) {
+        throw new Error(`JWKS at ${jwksUri} has no keys`);
+      }
+      return document.keys as Jwk[];
+    });
+    cached.catch(() => jwksCache.delete(jwksUri));
+    jwksCache.set(jwksUri, cached);
+  }
+  return cached;
+};
+
+const findJwk = (keys: Jwk[], kid: unknown): Jwk | null => {
+  const candidates = keys.filter((key) => key.use === undefined || key.use === "sig");
+  if (typeof kid === "string") {
+    return candidates.find((key) => key.kid === kid) ?? null;
+  }
+  return candidates.length === 1 ? (candidates[0] ?? null) : null;
+};
+
+// Verifies the ID token signature (HS* with the client secret, anything else
+// against the provider's JWKS) along with issuer, audience and expiry.
+const verifyIdToken = async (
+  idToken: string,
+  endpoints: OauthEndpoints,
+  provider: OauthProvider,
+): Promise<jwt.JwtPayload> => {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded) {
+    throw new Error(`${provider.name} id_token is invalid`);
+  }
+  const { alg, kid } = decoded.header;
+
+  let key: jwt.Secret | KeyObject;
+  let algorithms: jwt.Algorithm[];
+  if (alg === "HS256" || alg === "HS384" || alg === "HS512") {
+    key = provider.clientSecret;
+    algorithms = [alg];
+  } else {
+    if (!endpoints.jwksUri) {
+      throw new Error(`${provider.name} has no jwks_uri to verify the id_token`);
+    }
+    const jwk =
+      findJwk(await fetchJwks(endpoints.jwksUri, false), kid) ??
+      findJwk(await fetchJwks(endpoints.jwksUri, true), kid);
+    if (!jwk || typeof jwk.kty !== "string") {
+      throw new Error(`${provider.name} id_token signing key not found`);
+    }
+    key = createPublicKey({ key: jwk, format: "jwk" });
+    algorithms = (asymmetricAlgorithms[jwk.kty] ?? []).filter(
+      (candidate) => typeof jwk.alg !== "string" || candidate === jwk.alg,
+    );
+  }
+
+  const payload = jwt.verify(idToken, key, {
+    algorithms,
+    audience: provider.clientId,
+    ...(endpoints.issuer ? { issuer: endpoints.issuer } : {}),
+  });
+  if (typeof payload !== "object") {
+    throw new Error(`${provider.name} id_token is invalid`);
+  }
+  return payload;
+};
+
+// Claims come from the verified ID token (when the provider returns one),
+// with the userinfo response filling in the rest.
+const mapOidcProfile: OauthProvider["mapProfile"] = async (tokens, endpoints, provider) => {
+  let claims: Record<string, unknown> = {};
+
+  if (typeof tokens.id_token === "string") {
+    claims = await verifyIdToken(tokens.id_token, endpoints, provider);
+  }
+
+  if (endpoints.userinfoUrl && typeof tokens.access_token === "string") {
+    const userInfo = await fetchJson(endpoints.userinfoUrl, {
+      headers: { Authorization: `Bearer ${tokens.access_token}` },
+    });
+    // OIDC Core 5.3.2: userinfo for another subject must not be used.
+    const sub = typeof userInfo.sub === "string" ? userInfo.sub : null;
+    if (sub === null || (claims.sub !== undefined && sub !== claims.sub)) {
+      throw new Error("OIDC userinfo sub does not match the ID token");
+    }
+    // The verified ID token wins; userinfo only fills in what it leaves out.
+    // email and email_verified are taken from the same source, so a verified
+    // flag never vouches for another address.
+    const emailClaims =
+      pickString(claims.email) === null
+        ? { email: userInfo.email, email_verified: userInfo.email_verified }
+        : {};
+    claims = { ...userInfo, ...claims, ...emailClaims };
+  }
+
+  const email = pickString(claims.email);
+  return {
+    providerUserId: pickString(claims.sub),
+    email,
+    emailVerified:
+      email !== null &&
+      (claims.email_verified === true || claims.email_verified === "true"),
+    displayName: pickString(claims.name) ?? pickString(claims.given_name),
+    avatarUrl: pickString(claims.picture),
+  };
+};
+
+const mapGithubProfile: OauthProvider["mapProfile"] = async (tokens) => {
+  const accessToken = tokens.access_token;
+  if (typeof accessToken !== "string") {
+    throw new Error("GitHub access_token is missing");
+  }
+  const headers = {
+    Authorization: `Bearer ${accessToken}`,
+    Accept: "application/json",
+    "User-Agent": "ts-memo-api",
+  };
+
+  const userInfo = await fetchJson("https://api.github.com/user", { headers });
+  let email = pickString(userInfo.email);
+  let emailVerified = false;
+  if (!email) {
+    const emails = await fetchJson("https://api.github.com/user/emails", { headers });
+    if (Array.isArray(emails)) {
+      const primary = emails.find(
+        (entry) => entry && entry.primary === true && entry.verified === true,
+      );
+      const fallback = emails.find((entry) => entry && entry.verified === true);
+      const picked = primary ?? fallback;
+      if (picked && typeof picked.email === "string") {
+        email = picked.email.trim();
+        emailVerified = true;
+      }
+    }
+  }
+
+  return {
+    providerUserId:
+      userInfo.id !== undefined && userInfo.id !== null ? String(userInfo.id) : null,
+    email,
+    emailVerified,
+    displayName: pickString(userInfo.name) ?? pickString(userInfo.login),
+    avatarUrl: pickString(userInfo.avatar_url),
+  };
+};
+
+const staticEndpoints = (endpoints: OauthEndpoints) => async () => endpoints;
+
+// Discovery is fetched once per process; a failed lookup is retried next time.
+const discoverEndpoints = (issuer: string) => {
+  let cached: Promise<OauthEndpoints> | null = null;
+  return () => {
+    if (!cached) {
+      const base = issuer.replace(/\/$/, "");
+      cached = fetchJson(`${base}/.well-known/openid-configuration`, {})
+        .then((document) => {
+          if (
+            typeof document.authorization_endpoint !== "string" ||
+            typeof document.token_endpoint !== "string"
+          ) {
+            throw new Error(`OIDC discovery for ${issuer} is missing endpoints`);
+          }
+          return {
+            authorizeUrl: document.authorization_endpoint,
+            tokenUrl: document.token_endpoint,
+            userinfoUrl:
+              typeof document.userinfo_endpoint === "string"
+                ? document.userinfo_endpoint
+                : null,
+            issuer: typeof document.issuer === "string" ? document.issuer : issuer,
+            jwksUri: typeof document.jwks_uri === "string" ? document.jwks_uri : null,
+          };
+        })
+        .catch((error) => {
+          cached = null;
+          throw error;
+        });
+    }
+    return cached;
+  };
+};
+
+const builtInProviders = (): OauthProvider[] => {
+  const providers: OauthProvider[] = [];
+
+  const googleClientId = process.env.GOOGLE_CLIENT_ID;
+  const googleClientSecret = process.env.GOOGLE_CLIENT_SECRET;
+  if (googleClientId && googleClientSecret) {
+    providers.push({
+      name: "google",
+      clientId: googleClientId,
+      clientSecret: googleClientSecret,
+      scopes: ["openid", "email", "profile"],
+      authorizeParams: {},
+      resolveEndpoints: staticEndpoints({
+        authorizeUrl: "https://accounts.google.com/o/oauth2/v2/auth",
+        tokenUrl: "https://oauth2.googleapis.com/token",
+        userinfoUrl: "https://openidconnect.googleapis.com/v1/userinfo",
+        issuer: "https://accounts.google.com",
+        jwksUri: "https://www.googleapis.com/oauth2/v3/certs",
+      }),
+      mapProfile: mapOidcProfile,
+    });
+  }
+
+  const githubClientId = process.env.GITHUB_CLIENT_ID;
+  const githubClientSecret = process.env.GITHUB_CLIENT_SECRET;
+  if (githubClientId && githubClientSecret) {
+    providers.push({
+      name: "github",
+      clientId: githubClientId,
+      clientSecret: githubClientSecret,
+      scopes: ["user:email"],
+      authorizeParams: {},
+      resolveEndpoints: staticEndpoints({
+        authorizeUrl: "https://github.com/login/oauth/authorize",
+        tokenUrl: "https://github.com/login/oauth/access_token",
+        userinfoUrl: null,
+        issuer: null,
+        jwksUri: null,
+      }),
+      mapProfile: mapGithubProfile,
+    });
+  }
+
+  return providers;
+};
+
+const oidcProvidersFromConfig = (filePath: string): OauthProvider[] => {
+  const entries: OidcProviderConfig[] = JSON.parse(readFileSync(filePath, "utf8"));
+  if (!Array.isArray(entries)) {
+    throw new Error(`${filePath} must contain a JSON array`);
+  }
+
+  return entries.map((entry) => {
+    if (typeof entry.name !== "string" || !/^[a-z0-9_-]+$/.test(entry.name)) {
+      throw new Error(`invalid OIDC provider name: ${String(entry.name)}`);
+    }
+    if (typeof entry.issuer !== "string" || typeof entry.client_id !== "string") {
+      throw new Error(`OIDC provider ${entry.name} needs issuer and client_id`);
+    }
+    const clientSecret = entry.client_secret_env
+      ? process.env[entry.client_secret_env]
+      : entry.client_secret;
+    if (!clientSecret) {
+      throw new Error(`OIDC provider ${entry.name} has no client secret`);
+    }
+    return {
+      name: entry.name,
+      clientId: entry.client_id,
+      clientSecret,
+      scopes: entry.scopes ?? ["openid", "email", "profile"],
+      authorizeParams: entry.authorize_params ?? {},
+      resolveEndpoints: discoverEndpoints(entry.issuer),
+      mapProfile: mapOidcProfile,
+    };
+  });
+};
+
+export const loadOauthProviders = (): Map<string, OauthProvider> => {
+  const providers = builtInProviders();
+  const configPath = process.env.OIDC_PROVIDERS_FILE;
+  if (configPath) {
+    providers.push(...oidcProvidersFromConfig(configPath));
+  }
+
+  const registry = new Map<string, OauthProvider>();
+  for (const provider of providers) {
+    if (registry.has(provider.name)) {
+      throw new Error(`duplicate OAuth provider: ${provider.name}`);
+    }
+    registry.set(provider.name, provider);
+  }
+  return registry;
+};
+
+export const buildAuthorizeUrl = async (
+  provider: OauthProvider,
+  redirectUri: string,
+  state: string,
+): Promise<string> => {
+  const { authorizeUrl } = await provider.resolveEndpoints();
+  const url = new URL(authorizeUrl);
+  url.searchParams.set("client_id", provider.clientId);
+  url.searchParams.set("redirect_uri", redirectUri);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("scope", provider.scopes.join(" "));
+  url.searchParams.set("state", state);
+  for (const [key, value] of Object.entries(provider.authorizeParams)) {
+    url.searchParams.set(key, value);
+  }
+  return url.toString();
+};
+
+export const fetchOauthProfile = async (
+  provider: OauthProvider,
+  code: string,
+  redirectUri: string,
+): Promise<OauthProfile> => {
+  const endpoints = await provider.resolveEndpoints();
+  const tokenResponse = await fetchJson(endpoints.tokenUrl, {
+    method: "POST",
+    headers: {
+      Accept: "application/json",
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: new URLSearchParams({
+      client_id: provider.clientId,
+      client_secret: provider.clientSecret,
+      code,
+      grant_type: "authorization_code",
+      redirect_uri: redirectUri,
+    }).toString(),
+  });
+  if (
+    typeof tokenResponse.access_token !== "string" &&
+    typeof tokenResponse.id_token !== "string"
+  ) {
+    throw new Error(`${provider.name} token response has no access_token or id_token`);
+  }
+  return provider.mapProfile(tokenResponse, endpoints, provider);
+};
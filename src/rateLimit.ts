@@ -0,0 +1,252 @@
+import type express from "express";
+import type { Pool } from "pg";
+
+type Counter = {
+  count: number;
+  resetAt: number;
+};
+
+export interface RateLimitStore {
+  // Adds one hit to the key's current window, opening a new window if the
+  // previous one has ended, and returns the updated counter.
+  increment(key: string, windowMs: number): Promise<Counter>;
+  get(key: string): Promise<Counter | null>;
+  reset(key: string): Promise<void>;
+}
+
+export const createMemoryStore = (): RateLimitStore => {
+  const counters = new Map<string, Counter>();
+  let hitsSinceSweep = 0;
+
+  const sweep = (now: number) => {
+    for (const [key, counter] of counters) {
+      if (counter.resetAt <= now) {
+        counters.delete(key);
+      }
+    }
+  };
+
+  return {
+    async increment(key, windowMs) {
+      const now = Date.now();
+      hitsSinceSweep += 1;
+      if (hitsSinceSweep >= 1000) {
+        hitsSinceSweep = 0;
+        sweep(now);
+      }
+      const current = counters.get(key);
+      const next =
+        current && current.resetAt > now
+          ? { count: current.count + 1, resetAt: current.resetAt }
+          : { count: 1, resetAt: now + windowMs };
+      counters.set(key, next);
+      return next;
+    },
+    async get(key) {
+      const current = counters.get(key);
+      return current && current.resetAt > Date.now() ? current : null;
+    },
+    async reset(key) {
+      counters.delete(key);
+    },
+  };
+};
+
+// Shares counters across API instances; see migrations/013_create_rate_limit_counters.sql.
+export const createPostgresStore = (db: Pick<Pool, "query">): RateLimitStore => {
+  let hitsSinceSweep = 0;
+
+  return {
+    async increment(key, windowMs) {
+      hitsSinceSweep += 1;
+      if (hitsSinceSweep >= 1000) {
+        hitsSinceSweep = 0;
+        await db.query("DELETE FROM rate_limit_counters WHERE reset_at <= now()");
+      }
+      const result = await db.query(
+        `INSERT INTO rate_limit_counters (key, count, reset_at)
+         VALUES ($1, 1, now() + make_interval(secs => $2))
+         ON CONFLICT (key) DO UPDATE SET
+           count = CASE WHEN rate_limit_counters.reset_at <= now() THEN 1
+                        ELSE rate_limit_counters.count + 1 END,
+           reset_at = CASE WHEN rate_limit_counters.reset_at <= now() THEN EXCLUDED.reset_at
+                           ELSE rate_limit_counters.reset_at END
+         RETURNING count, reset_at`,
+        [key, windowMs / 1000],
+      );
+      const row = result.rows[0];
+      return { count: row.count, resetAt: new Date(row.reset_at).getTime() };
+    },
+    async get(key) {
+      const result = await db.query(
+        "SELECT count, reset_at FROM rate_limit_counters WHERE key = $1 AND reset_at > now()",
+        [key],
+      );
+      const row = result.rows[0];
+      return row ? { count: row.count, resetAt: new Date(row.reset_at).getTime() } : null;
+    },
+    async reset(key) {
+      await db.query("DELETE FROM rate_limit_counters WHERE key = $1", [key]);
+    },
+  };
+};
+
+export const createRateLimitStore = (db: Pick<Pool, "query">): RateLimitStore => {
+  const store = process.env.RATE_LIMIT_STORE ?? "memory";
+  if (store === "memory") {
+    return createMemoryStore();
+  }
+  if (store === "postgres") {
+    return createPostgresStore(db);
+  }
+  throw new Error(`unknown RATE_LIMIT_STORE: ${store}`);
+};
+
+export type RateLimitPolicy = {
+  window_seconds: number;
+  max: number;
+};
+
+export type LockoutPolicy = {
+  // Failures inside the window that trigger the first lock.
+  max_failures: number;
+  window_seconds: number;
+  // Each further failure doubles the lock, up to max_lock_seconds.
+  lock_seconds: number;
+  max_lock_seconds: number;
+};
+
+const defaultRateLimitPolicies = {
+  signup: { window_seconds: 3600, max: 10 },
+  login: { window_seconds: 60, max: 20 },
+  password: { window_seconds: 3600, max: 10 },
+  daily_write: { window_seconds: 60, max: 30 },
+  task_write: { window_seconds: 60, max: 60 },
+};
+
+const defaultLockoutPolicies = {
+  login_email: {
+    max_failures: 5,
+    window_seconds: 3600,
+    lock_seconds: 30,
+    max_lock_seconds: 3600,
+  },
+  login_ip: {
+    max_failures: 20,
+    window_seconds: 3600,
+    lock_seconds: 60,
+    max_lock_seconds: 3600,
+  },
+  // PINs are short, so a child's PIN locks quickly.
+  kid_pin: {
+    max_failures: 5,
+    window_seconds: 900,
+    lock_seconds: 60,
+    max_lock_seconds: 3600,
+  },
+};
+
+// RATE_LIMIT_POLICIES is a JSON object keyed by policy name; each entry
+// overrides the matching default, e.g. {"daily_write":{"max":10}}.
+export const loadRateLimitPolicies = () => {
+  const overrides: Record<string, Record<string, number>> = process.env.RATE_LIMIT_POLICIES
+    ? JSON.parse(process.env.RATE_LIMIT_POLICIES)
+    : {};
+  const merge = <T extends Record<string, object>>(defaults: T): T =>
+    Object.fromEntries(
+      Object.entries(defaults).map(([name, policy]) => [
+        name,
+        { ...policy, ...overrides[name] },
+      ]),
+    ) as T;
+
+  return {
+    rateLimits: merge<Record<keyof typeof defaultRateLimitPolicies, RateLimitPolicy>>(
+      defaultRateLimitPolicies,
+    ),
+    lockouts: merge<Record<keyof typeof defaultLockoutPolicies, LockoutPolicy>>(
+      defaultLockoutPolicies,
+    ),
+  };
+};
+
+export const sendTooManyRequests = (
+  res: express.Response,
+  retryAfterSeconds: number,
+  error: string,
+) => {
+  res.setHeader("Retry-After", String(retryAfterSeconds));
+  return res.status(429).json({ error });
+};
+
+// Fixed-window limiter. key returns null to skip requests it can't attribute.
+export const rateLimit = (
+  store: RateLimitStore,
+  name: string,
+  policy: RateLimitPolicy,
+  key: (req: express.Request) => string | null,
+): express.RequestHandler => {
+  return async (req, res, next) => {
+    const id = key(req);
+    if (id === null) {
+      return next();
+    }
+
+    let counter: Counter;
+    try {
+      counter = await store.increment(`rl:${name}:${id}`, policy.window_seconds * 1000);
+    } catch (error) {
+      // Fail open: a broken limiter store shouldn't take the API down.
+      console.error("rate limit check failed", error);
+      return next();
+    }
+
+    if (counter.count > policy.max) {
+      const retryAfter = Math.max(1, Math.ceil((counter.resetAt - Date.now()) / 1000));
+      return sendTooManyRequests(res, retryAfter, "too_many_requests");
+    }
+    return next();
+  };
+};
+
+export type Lockout = {
+  // Seconds until the id may try again, or 0 when it isn't locked.
+  retryAfter(id: string): Promise<number>;
+  recordFailure(id: string): Promise<void>;
+  reset(id: string): Promise<void>;
+};
+
+export const createLockout = (
+  store: RateLimitStore,
+  name: string,
+  policy: LockoutPolicy,
+): Lockout => {
+  const failureKey = (id: string) => `lock:${name}:failures:${id}`;
+  const lockKey = (id: string) => `lock:${name}:locked:${id}`;
+
+  return {
+    async retryAfter(id) {
+      const lock = await store.get(lockKey(id));
+      if (!lock) {
+        return 0;
+      }
+      return Math.max(1, Math.ceil((lock.resetAt - Date.now()) / 1000));
+    },
+    async recordFailure(id) {
+      const failures = await store.increment(failureKey(id), policy.window_seconds * 1000);
+      const overLimit = failures.count - policy.max_failures;
+      if (overLimit < 0) {
+        return;
+      }
+      const lockSeconds = Math.min(
+        policy.lock_seconds * 2 ** Math.min(overLimit, 30),
+        policy.max_lock_seconds,
+      );
+      await store.increment(lockKey(id), lockSeconds * 1000);
+    },
+    async reset(id) {
+      await store.reset(failureKey(id));
+      await store.reset(lockKey(id));
+    },
+  };
+};
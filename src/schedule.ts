@@ -0,0 +1,475 @@
+// Task scheduling shared by every view that asks "is this task due on this day?".
+// Dates are YYYY-MM-DD strings interpreted as UTC calendar days.
+
+export type TaskSchedule = {
+  // Legacy weekly bitmask, Sun=1 .. Sat=64. Null when the task uses rrule/rdates.
+  days_mask: number | null;
+  // RFC 5545 RRULE value (without the "RRULE:" prefix); start_date is its DTSTART.
+  rrule: string | null;
+  // Explicit extra dates (RDATE), due regardless of start_date/end_date.
+  rdates: string[];
+  start_date: string | null;
+  end_date: string | null;
+};
+
+type Frequency = "DAILY" | "WEEKLY" | "MONTHLY";
+
+type ByDay = {
+  weekday: number; // 0=Sun..6=Sat
+  ordinal: number | null; // MONTHLY only: 1 = first, -1 = last, ...
+};
+
+type Rrule = {
+  freq: Frequency;
+  interval: number;
+  count: number | null;
+  until: string | null;
+  byDay: ByDay[];
+  byMonthDay: number[];
+  byMonth: number[];
+  wkst: number;
+};
+
+const weekdayCodes = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+// The Gregorian calendar repeats every 400 years: 146097 days, 20871 weeks or
+// 4800 months. After that many periods a rule's matches repeat, shifted by
+// 146097 * INTERVAL days.
+const cyclePeriods: Record<Frequency, number> = {
+  DAILY: 146097,
+  WEEKLY: 20871,
+  MONTHLY: 4800,
+};
+
+// Parsed rules and COUNT expansions are memoized per process; the sets of
+// rules in use are small, so the caches are simply dropped when they grow.
+const maxCachedRules = 10000;
+const parsedRules = new Map<string, Rrule | null>();
+const lastCountedDays = new Map<string, number | null>();
+
+const toDayNumber = (value: string): number =>
+  Math.floor(Date.parse(`${value}T00:00:00Z`) / 86400000);
+
+const fromDayNumber = (dayNumber: number): string =>
+  new Date(dayNumber * 86400000).toISOString().slice(0, 10);
+
+const weekdayOf = (dayNumber: number): number => (dayNumber + 4) % 7; // 1970-01-01 was a Thursday
+
+const daysInMonth = (year: number, month: number): number =>
+  new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const parseInteger = (value: string, min: number, max: number): number | null => {
+  if (!/^[+-]?\d+$/.test(value)) {
+    return null;
+  }
+  const parsed = Number(value);
+  return parsed >= min && parsed <= max ? parsed : null;
+};
+
+const parseList = <T>(value: string, parseItem: (item: string) => T | null): T[] | null => {
+  const items = value.split(",").map(parseItem);
+  return items.every((item) => item !== null) ? (items as T[]) : null;
+};
+
+const parseRrule = (value: string): Rrule | null => {
+  const text = value.trim().toUpperCase().replace(/^RRULE:/, "");
+  if (!text) {
+    return null;
+  }
+
+  const parts = new Map<string, string>();
+  for (const part of text.split(";")) {
+    const [key, partValue, ...rest] = part.split("=");
+    if (!key || !partValue || rest.length > 0 || parts.has(key)) {
+      return null;
+    }
+    parts.set(key, partValue);
+  }
+
+  const freq = parts.get("FREQ");
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY") {
+    return null;
+  }
+  const rule: Rrule = {
+    freq,
+    interval: 1,
+    count: null,
+    until: null,
+    byDay: [],
+    byMonthDay: [],
+    byMonth: [],
+    wkst: 1,
+  };
+
+  for (const [key, partValue] of parts) {
+    switch (key) {
+      case "FREQ":
+        break;
+      case "INTERVAL": {
+        const interval = parseInteger(partValue, 1, 366);
+        if (interval === null) {
+          return null;
+        }
+        rule.interval = interval;
+        break;
+      }
+      case "COUNT": {
+        const count = parseInteger(partValue, 1, 1000);
+        if (count === null) {
+          return null;
+        }
+        rule.count = count;
+        break;
+      }
+      case "UNTIL": {
+        const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(partValue);
+        if (!match) {
+          return null;
+        }
+        const until = `${match[1]}-${match[2]}-${match[3]}`;
+        if (fromDayNumber(toDayNumber(until)) !== until) {
+          return null;
+        }
+        rule.until = until;
+        break;
+      }
+      case "BYDAY": {
+        const byDay = parseList(partValue, (item) => {
+          const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(item);
+          if (!match) {
+            return null;
+          }
+          const ordinal = match[1] ? parseInteger(match[1], -5, 5) : null;
+          if (match[1] && (ordinal === null || ordinal === 0)) {
+            return null;
+          }
+          return { weekday: weekdayCodes.indexOf(match[2] ?? ""), ordinal };
+        });
+        if (!byDay) {
+          return null;
+        }
+        rule.byDay = byDay;
+        break;
+      }
+      case "BYMONTHDAY": {
+        const byMonthDay = parseList(partValue, (item) => {
+          const day = parseInteger(item, -31, 31);
+          return day === 0 ? null : day;
+        });
+        if (!byMonthDay) {
+          return null;
+        }
+        rule.byMonthDay = byMonthDay;
+        break;
+      }
+      case "BYMONTH": {
+        const byMonth = parseList(partValue, (item) => parseInteger(item, 1, 12));
+        if (!byMonth) {
+          return null;
+        }
+        rule.byMonth = byMonth;
+        break;
+      }
+      case "WKST": {
+        const wkst = weekdayCodes.indexOf(partValue);
+        if (wkst === -1) {
+          return null;
+        }
+        rule.wkst = wkst;
+        break;
+      }
+      default:
+        return null;
+    }
+  }
+
+  // RFC 5545: COUNT and UNTIL are exclusive; ordinal BYDAY only makes sense monthly.
+  if (rule.count !== null && rule.until !== null) {
+    return null;
+  }
+  if (rule.freq !== "MONTHLY" && rule.byDay.some((day) => day.ordinal !== null)) {
+    return null;
+  }
+  // RFC 5545 forbids BYMONTHDAY with FREQ=WEEKLY.
+  if (rule.freq === "WEEKLY" && rule.byMonthDay.length > 0) {
+    return null;
+  }
+  return rule;
+};
+
+const formatRrule = (rule: Rrule): string => {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.count !== null) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  if (rule.until !== null) {
+    parts.push(`UNTIL=${rule.until.replace(/-/g, "")}`);
+  }
+  if (rule.byDay.length > 0) {
+    parts.push(
+      `BYDAY=${rule.byDay
+        .map((day) => `${day.ordinal ?? ""}${weekdayCodes[day.weekday]}`)
+        .join(",")}`,
+    );
+  }
+  if (rule.byMonthDay.length > 0) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  }
+  if (rule.byMonth.length > 0) {
+    parts.push(`BYMONTH=${rule.byMonth.join(",")}`);
+  }
+  if (rule.wkst !== 1) {
+    parts.push(`WKST=${weekdayCodes[rule.wkst]}`);
+  }
+  return parts.join(";");
+};
+
+// Returns the canonical form of an RRULE, or null when it is invalid or uses
+// parts we don't evaluate (FREQ other than DAILY/WEEKLY/MONTHLY, BYSETPOS, ...).
+export const normalizeRrule = (value: string): string | null => {
+  const rule = parseRrule(value);
+  return rule ? formatRrule(rule) : null;
+};
+
+// Whether dayNumber matches the rule's pattern, ignoring COUNT.
+const matchesRule = (rule: Rrule, startDay: number, dayNumber: number): boolean => {
+  const date = new Date(dayNumber * 86400000);
+  const start = new Date(startDay * 86400000);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + 1;
+  const day = date.getUTCDate();
+  const weekday = weekdayOf(dayNumber);
+  const monthLength = daysInMonth(year, month);
+
+  if (rule.byMonth.length > 0 && !rule.byMonth.includes(month)) {
+    return false;
+  }
+  const monthDayMatches = rule.byMonthDay.some(
+    (value) => value === day || (value < 0 && monthLength + value + 1 === day),
+  );
+  const weekdayMatches = rule.byDay.some((byDay) => {
+    if (byDay.weekday !== weekday) {
+      return false;
+    }
+    if (byDay.ordinal === null) {
+      return true;
+    }
+    const fromStart = Math.ceil(day / 7);
+    const fromEnd = -(Math.floor((monthLength - day) / 7) + 1);
+    return byDay.ordinal === fromStart || byDay.ordinal === fromEnd;
+  });
+
+  switch (rule.freq) {
+    case "DAILY":
+      return (
+        (dayNumber - startDay) % rule.interval === 0 &&
+        (rule.byDay.length === 0 || weekdayMatches) &&
+        (rule.byMonthDay.length === 0 || monthDayMatches)
+      );
+    case "WEEKLY": {
+      const weekStart = (value: number) => value - ((weekdayOf(value) - rule.wkst + 7) % 7);
+      const weeks = (weekStart(dayNumber) - weekStart(startDay)) / 7;
+      if (weeks % rule.interval !== 0) {
+        return false;
+      }
+      return rule.byDay.length > 0 ? weekdayMatches : weekday === weekdayOf(startDay);
+    }
+    case "MONTHLY": {
+      const months =
+        (year - start.getUTCFullYear()) * 12 + (month - (start.getUTCMonth() + 1));
+      if (months % rule.interval !== 0) {
+        return false;
+      }
+      if (rule.byDay.length === 0 && rule.byMonthDay.length === 0) {
+        return day === start.getUTCDate();
+      }
+      return (
+        (rule.byDay.length === 0 || weekdayMatches) &&
+        (rule.byMonthDay.length === 0 || monthDayMatches)
+      );
+    }
+  }
+};
+
+const cachedRule = (value: string): Rrule | null => {
+  let rule = parsedRules.get(value);
+  if (rule === undefined) {
+    if (parsedRules.size >= maxCachedRules) {
+      parsedRules.clear();
+    }
+    rule = parseRrule(value);
+    parsedRules.set(value, rule);
+  }
+  return rule;
+};
+
+// The candidate days of the period-th period after DTSTART (every INTERVAL
+// days, weeks or months), in order.
+const periodDays = (rule: Rrule, startDay: number, period: number): number[] => {
+  switch (rule.freq) {
+    case "DAILY":
+      return [startDay + period * rule.interval];
+    case "WEEKLY": {
+      const weekStart =
+        startDay - ((weekdayOf(startDay) - rule.wkst + 7) % 7) + period * rule.interval * 7;
+      return Array.from({ length: 7 }, (_, index) => weekStart + index);
+    }
+    case "MONTHLY": {
+      const start = new Date(startDay * 86400000);
+      const monthIndex = start.getUTCMonth() + period * rule.interval;
+      const first = toDayNumber(
+        new Date(Date.UTC(start.getUTCFullYear(), monthIndex, 1)).toISOString().slice(0, 10),
+      );
+      const last = new Date(Date.UTC(start.getUTCFullYear(), monthIndex + 1, 0));
+      return Array.from({ length: last.getUTCDate() }, (_, index) => first + index);
+    }
+  }
+};
+
+// The day of the COUNT-th occurrence, or null when the rule never matches.
+// At most one cycle is walked; later occurrences are read off its matches.
+const lastCountedDay = (rule: Rrule, count: number, startDay: number): number | null => {
+  const cycle: number[] = [];
+  let seen = 0;
+  for (let period = 0; period < cyclePeriods[rule.freq]; period += 1) {
+    for (const day of periodDays(rule, startDay, period)) {
+      if (!matchesRule(rule, startDay, day)) {
+        continue;
+      }
+      cycle.push(day);
+      // Days of the first period before DTSTART don't count, but their
+      // counterparts in later cycles do.
+      if (day >= startDay) {
+        seen += 1;
+        if (seen === count) {
+          return day;
+        }
+      }
+    }
+  }
+  const index = cycle.length - seen + count - 1;
+  const day = cycle[index % cycle.length];
+  return day === undefined
+    ? null
+    : day + Math.floor(index / cycle.length) * 146097 * rule.interval;
+};
+
+const isRruleOccurrence = (value: string, startDate: string, date: string): boolean => {
+  const rule = cachedRule(value);
+  if (rule === null) {
+    return false;
+  }
+  const startDay = toDayNumber(startDate);
+  const dayNumber = toDayNumber(date);
+  if (dayNumber < startDay || (rule.until !== null && date > rule.until)) {
+    return false;
+  }
+  if (!matchesRule(rule, startDay, dayNumber)) {
+    return false;
+  }
+  if (rule.count === null) {
+    return true;
+  }
+
+  const key = `${startDate};${value}`;
+  let last = lastCountedDays.get(key);
+  if (last === undefined) {
+    if (lastCountedDays.size >= maxCachedRules) {
+      lastCountedDays.clear();
+    }
+    last = lastCountedDay(rule, rule.count, startDay);
+    lastCountedDays.set(key, last);
+  }
+  return last !== null && dayNumber <= last;
+};
+
+// Checks a schedule's fields against each other; the values themselves are
+// validated by the route handlers.
+export const isValidSchedule = (schedule: TaskSchedule): boolean => {
+  if (schedule.days_mask !== null && schedule.rrule !== null) {
+    return false;
+  }
+  if (schedule.days_mask === null && schedule.rrule === null && schedule.rdates.length === 0) {
+    return false;
+  }
+  // DTSTART anchors INTERVAL and COUNT, so an RRULE needs a start_date.
+  if (schedule.rrule !== null && schedule.start_date === null) {
+    return false;
+  }
+  if (
+    schedule.start_date !== null &&
+    schedule.end_date !== null &&
+    schedule.start_date > schedule.end_date
+  ) {
+    return false;
+  }
+  return true;
+};
+
+export const isScheduledOn = (schedule: TaskSchedule, date: string): boolean => {
+  if (schedule.rdates.includes(date)) {
+    return true;
+  }
+  if (schedule.start_date !== null && schedule.start_date > date) {
+    return false;
+  }
+  if (schedule.end_date !== null && schedule.end_date < date) {
+    return false;
+  }
+
+  if (schedule.rrule !== null && schedule.start_date !== null) {
+    return isRruleOccurrence(schedule.rrule, schedule.start_date, date);
+  }
+  if (schedule.days_mask !== null) {
+    return (schedule.days_mask & (1 << weekdayOf(toDayNumber(date)))) !== 0;
+  }
+  return false;
+};
+
+export type TaskExceptionAction = "skip" | "move" | "override";
+
+// One day's deviation from the schedule: skip drops the occurrence on date,
+// move shifts it to moved_to, override keeps it but changes the minutes.
+export type TaskException = {
+  date: string;
+  action: TaskExceptionAction;
+  moved_to: string | null;
+  minutes: number | null;
+};
+
+export type TaskOccurrence = {
+  // Replaces default_minutes for this day when set.
+  minutes: number | null;
+  // The originally scheduled date when the occurrence was moved here.
+  moved_from: string | null;
+};
+
+// The task's occurrence on date once exceptions are applied, or null when it
+// isn't due. Every due/completion calculation should go through this.
+export const resolveOccurrence = (
+  schedule: TaskSchedule,
+  exceptions: TaskException[],
+  date: string,
+): TaskOccurrence | null => {
+  const movedHere = exceptions.find(
+    (exception) => exception.action === "move" && exception.moved_to === date,
+  );
+  if (movedHere) {
+    return { minutes: movedHere.minutes, moved_from: movedHere.date };
+  }
+
+  if (!isScheduledOn(schedule, date)) {
+    return null;
+  }
+  const exception = exceptions.find((entry) => entry.date === date);
+  if (!exception) {
+    return { minutes: null, moved_from: null };
+  }
+  if (exception.action === "override") {
+    return { minutes: exception.minutes, moved_from: null };
+  }
+  return null;
+};
@@ -0,0 +1,141 @@
+// Task templates: reusable task sets that can be applied to a child. Household
+// templates live in task_templates; starter packs ship with the API in
+// starterPacks.json.
+import starterPackData from "./starterPacks.json";
+import { normalizeRrule } from "./schedule";
+
+// Templates carry no dates, so a task repeats either weekly (days_mask) or by
+// rrule. The subject is a name, resolved against the household on apply.
+export type TemplateTask = {
+  name: string;
+  description: string | null;
+  subject: string;
+  default_minutes: number;
+  days_mask: number | null;
+  rrule: string | null;
+  // Quantity-based tasks ("10 pages"); both null for minutes-only tasks.
+  unit: string | null;
+  target_quantity: number | null;
+};
+
+export type StarterPack = {
+  id: string;
+  grade: string;
+  name: string;
+  tasks: TemplateTask[];
+};
+
+export const maxTemplateTasks = 100;
+
+const parseTemplateTask = (value: unknown): TemplateTask | null => {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+  const { name, description, subject, default_minutes, days_mask, rrule, unit, target_quantity } =
+    value as Record<string, unknown>;
+
+  if (typeof name !== "string" || !name.trim()) {
+    return null;
+  }
+  if (description !== undefined && description !== null && typeof description !== "string") {
+    return null;
+  }
+  if (typeof subject !== "string" || !subject.trim() || subject.trim().length > 50) {
+    return null;
+  }
+  const minutes = default_minutes ?? 15;
+  if (typeof minutes !== "number" || !Number.isInteger(minutes) || minutes < 1) {
+    return null;
+  }
+
+  let mask: number | null = null;
+  if (days_mask !== undefined && days_mask !== null) {
+    if (
+      typeof days_mask !== "number" ||
+      !Number.isInteger(days_mask) ||
+      days_mask < 1 ||
+      days_mask > 127
+    ) {
+      return null;
+    }
+    mask = days_mask;
+  }
+  let rule: string | null = null;
+  if (rrule !== undefined && rrule !== null) {
+    rule = typeof rrule === "string" ? normalizeRrule(rrule) : null;
+    if (!rule) {
+      return null;
+    }
+  }
+  if ((mask === null) === (rule === null)) {
+    return null;
+  }
+
+  const hasUnit = unit !== undefined && unit !== null;
+  const hasTarget = target_quantity !== undefined && target_quantity !== null;
+  if (hasUnit !== hasTarget) {
+    return null;
+  }
+  if (hasUnit && (typeof unit !== "string" || !unit.trim() || unit.trim().length > 20)) {
+    return null;
+  }
+  if (
+    hasTarget &&
+    (typeof target_quantity !== "number" ||
+      !Number.isInteger(target_quantity) ||
+      target_quantity < 1)
+  ) {
+    return null;
+  }
+
+  return {
+    name: name.trim(),
+    description: description ?? null,
+    subject: subject.trim(),
+    default_minutes: minutes,
+    days_mask: mask,
+    rrule: rule,
+    unit: typeof unit === "string" ? unit.trim() : null,
+    target_quantity: typeof target_quantity === "number" ? target_quantity : null,
+  };
+};
+
+// Returns null unless value is a non-empty array of valid template tasks.
+export const parseTemplateTasks = (value: unknown): TemplateTask[] | null => {
+  if (!Array.isArray(value) || value.length === 0 || value.length > maxTemplateTasks) {
+    return null;
+  }
+  const tasks: TemplateTask[] = [];
+  for (const item of value) {
+    const task = parseTemplateTask(item);
+    if (!task) {
+      return null;
+    }
+    tasks.push(task);
+  }
+  return tasks;
+};
+
+const loadStarterPacks = (data: unknown): StarterPack[] => {
+  if (!Array.isArray(data)) {
+    throw new Error("starterPacks.json must be an array");
+  }
+  return data.map((entry) => {
+    const tasks = parseTemplateTasks(entry?.tasks);
+    if (
+      typeof entry?.id !== "string" ||
+      typeof entry.grade !== "string" ||
+      typeof entry.name !== "string" ||
+      !tasks
+    ) {
+      throw new Error(`invalid starter pack: ${JSON.stringify(entry?.id)}`);
+    }
+    return { id: entry.id, grade: entry.grade, name: entry.name, tasks };
+  });
+};
+
+// Validated at startup so a broken bundled file fails fast.
+export const starterPacks: StarterPack[] = loadStarterPacks(starterPackData);
+
+export const findStarterPack = (id: string): StarterPack | null =>
+  starterPacks.find((pack) => pack.id === id) ?? null;
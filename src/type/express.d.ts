@@ -3,5 +3,8 @@ import "express-serve-static-core";
 declare module "express-serve-static-core" {
   interface Request {
     userId?: string;
+    sessionId?: string | null;
+    scopes?: string[];
+    childScope?: string | null;
   }
 }
\ No newline at end of file